@@ -12,7 +12,11 @@ import ConnectScreen from './app/ConnectScreen';
 import HomeScreen from './app/HomeScreen';
 import CreateCardScreen from './app/CreateCardScreen';
 import ViewCardScreen from './app/ViewCardScreen';
+import MyCardsScreen from './app/MyCardsScreen';
 import SettingsScreen from './app/SettingsScreen';
+import KeyRecoveryScreen from './app/KeyRecoveryScreen';
+import LinkDeviceScreen from './app/LinkDeviceScreen';
+import VerifyPartnerScreen from './app/VerifyPartnerScreen';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import type { RootStackParamList } from './types';
@@ -31,6 +35,14 @@ function AuthNavigator() {
   );
 }
 
+function KeyRecoveryNavigator() {
+  return (
+    <Stack.Navigator screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="KeyRecovery" component={KeyRecoveryScreen} />
+    </Stack.Navigator>
+  );
+}
+
 function MainNavigator() {
   return (
     <Stack.Navigator screenOptions={{ headerShown: false }}>
@@ -54,6 +66,15 @@ function MainNavigator() {
           headerBackTitle: 'Back',
         }}
       />
+      <Stack.Screen 
+        name="MyCards" 
+        component={MyCardsScreen}
+        options={{
+          headerShown: true,
+          title: 'Your Notes',
+          headerBackTitle: 'Back',
+        }}
+      />
       <Stack.Screen 
         name="Settings" 
         component={SettingsScreen}
@@ -63,12 +84,30 @@ function MainNavigator() {
           headerBackTitle: 'Back',
         }}
       />
+      <Stack.Screen 
+        name="LinkDevice" 
+        component={LinkDeviceScreen}
+        options={{
+          headerShown: true,
+          title: 'Link a New Device',
+          headerBackTitle: 'Back',
+        }}
+      />
+      <Stack.Screen 
+        name="VerifyPartner" 
+        component={VerifyPartnerScreen}
+        options={({ route }) => ({
+          headerShown: !route.params?.fromPairing,
+          title: 'Safety Number',
+          headerBackTitle: 'Back',
+        })}
+      />
     </Stack.Navigator>
   );
 }
 
 function AppNavigator() {
-  const { user, loading: authLoading } = useAuth();
+  const { user, loading: authLoading, privateKeyMissing } = useAuth();
   const { connectionStatus, loading: partnerLoading } = usePartner();
 
   if (authLoading || partnerLoading) {
@@ -83,6 +122,11 @@ function AppNavigator() {
     return <AuthNavigator />;
   }
 
+  // Signed in on a device without the private key: restore it before anything can decrypt
+  if (privateKeyMissing) {
+    return <KeyRecoveryNavigator />;
+  }
+
   return <MainNavigator />;
 }
 
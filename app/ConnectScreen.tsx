@@ -16,20 +16,21 @@ import { usePartner } from '../contexts/PartnerContext';
 import { useAuth } from '../contexts/AuthContext';
 
 export default function ConnectScreen({ navigation }: any) {
-  const { generateInviteCode, acceptInviteCode, loading, connectionStatus } = usePartner();
+  const { generateInviteCode, acceptInviteCode, breakup, loading, connectionStatus, handshakeError } = usePartner();
   const { user, refreshUser } = useAuth();
   const [inviteCode, setInviteCode] = useState<string | null>(null);
   const [inputCode, setInputCode] = useState('');
   const [generating, setGenerating] = useState(false);
   const [accepting, setAccepting] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
   const hasNavigatedRef = React.useRef(false);
 
   // Auto-navigate to Home when connected
   React.useEffect(() => {
     console.log('[ConnectScreen] connectionStatus:', connectionStatus, 'partnerId:', user?.partnerId, 'hasNavigated:', hasNavigatedRef.current);
     
-    // If connectionStatus is connected but partnerId is null, refresh user data
-    if (connectionStatus === 'connected' && !user?.partnerId && !hasNavigatedRef.current) {
+    // If paired but partnerId is null, refresh user data
+    if ((connectionStatus === 'connected' || connectionStatus === 'pending') && !user?.partnerId && !hasNavigatedRef.current) {
       console.log('[ConnectScreen] connectionStatus is connected but partnerId is null, refreshing user...');
       refreshUser(true).then(() => {
         console.log('[ConnectScreen] User refreshed, partnerId:', user?.partnerId);
@@ -38,12 +39,13 @@ export default function ConnectScreen({ navigation }: any) {
     }
     
     if (connectionStatus === 'connected' && user?.partnerId && !hasNavigatedRef.current) {
-      console.log('[ConnectScreen] Navigating to Home...');
+      console.log('[ConnectScreen] Navigating to VerifyPartner...');
       hasNavigatedRef.current = true;
       // Small delay to ensure state is fully synced
+      // Both partners land on the safety number first, then continue to Home
       setTimeout(() => {
-        console.log('[ConnectScreen] Executing navigation.replace("Home")');
-        navigation.replace('Home');
+        console.log('[ConnectScreen] Executing navigation.replace("VerifyPartner")');
+        navigation.replace('VerifyPartner', { fromPairing: true });
       }, 300);
     } else if (connectionStatus !== 'connected') {
       hasNavigatedRef.current = false;
@@ -105,9 +107,7 @@ export default function ConnectScreen({ navigation }: any) {
       // Wait a moment for React state to propagate
       await new Promise(resolve => setTimeout(resolve, 200));
       
-      // Show success message
-      // Navigation will happen automatically via useEffect when state updates
-      Alert.alert('Success', 'You are now connected with your partner!');
+      // Navigation to the safety number screen happens automatically via useEffect when state updates
       setAccepting(false);
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Failed to accept invite code');
@@ -115,6 +115,17 @@ export default function ConnectScreen({ navigation }: any) {
     }
   };
 
+  const handleCancelPairing = async () => {
+    setCancelling(true);
+    try {
+      await breakup();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to cancel pairing');
+    } finally {
+      setCancelling(false);
+    }
+  };
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -140,6 +151,36 @@ export default function ConnectScreen({ navigation }: any) {
           Generate an invite code or enter one from your partner
         </Text>
 
+      {connectionStatus === 'pending' ? (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Confirming Keys</Text>
+        {handshakeError ? (
+          <>
+            <Text style={styles.errorText}>{handshakeError}</Text>
+            <TouchableOpacity
+              style={[styles.button, cancelling && styles.buttonDisabled]}
+              onPress={handleCancelPairing}
+              disabled={cancelling}
+            >
+              {cancelling ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Cancel Pairing</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.sectionDescription}>
+              Making sure you and your partner share the same encryption key. This finishes as soon as
+              both of you have the app open.
+            </Text>
+            <ActivityIndicator size="large" color="#6366f1" />
+          </>
+        )}
+      </View>
+      ) : (
+      <>
       {/* Generate Invite Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Generate Invite Code</Text>
@@ -208,6 +249,8 @@ export default function ConnectScreen({ navigation }: any) {
           )}
         </TouchableOpacity>
       </View>
+      </>
+      )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -330,6 +373,11 @@ const styles = StyleSheet.create({
     padding: 16,
     alignItems: 'center',
   },
+  errorText: {
+    fontSize: 14,
+    color: '#dc2626',
+    marginBottom: 16,
+  },
   buttonDisabled: {
     opacity: 0.6,
   },
@@ -10,18 +10,38 @@ import {
   ScrollView,
   KeyboardAvoidingView,
   Platform,
+  Switch,
+  Image,
 } from 'react-native';
 import { Audio } from 'expo-av';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import * as ImagePicker from 'expo-image-picker';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../contexts/AuthContext';
 import { usePartner } from '../contexts/PartnerContext';
 import { cardService, CARD_TEMPLATES } from '../services/cards';
-import { encryptionService } from '../services/encryption';
-import { partnerService } from '../services/partner';
+import { pairKeyService } from '../services/pairKeys';
+import { SKETCH_COLORS, SKETCH_WIDTHS } from '../services/sketch';
+import SketchCanvas from '../components/SketchCanvas';
+import type { Card, PickedImage, Sketch } from '../types';
 
-type CardType = 'text' | 'voice';
+type CardType = 'text' | 'voice' | 'image' | 'sketch';
 
-export default function CreateCardScreen({ navigation }: any) {
+/**
+ * Midnight at the start of tomorrow; time capsules unlock no sooner
+ */
+function startOfTomorrow(): Date {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + 1);
+  return date;
+}
+
+export default function CreateCardScreen({ route, navigation }: any) {
+  // Set when editing one of the user's own text cards instead of writing a new one
+  const editCardId: string | undefined = route.params?.cardId;
+  // Set when writing back to a card the user drew
+  const inReplyTo: string | undefined = route.params?.inReplyTo;
   const { user } = useAuth();
   const { partner } = usePartner();
   const [cardType, setCardType] = useState<CardType>('text');
@@ -29,9 +49,25 @@ export default function CreateCardScreen({ navigation }: any) {
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
   const [recording, setRecording] = useState<Audio.Recording | null>(null);
   const [recordingUri, setRecordingUri] = useState<string | null>(null);
+  const [recordedDurationMs, setRecordedDurationMs] = useState<number | undefined>(undefined);
   const [isRecording, setIsRecording] = useState(false);
   const [recordingDuration, setRecordingDuration] = useState(0);
+  const [pickedImage, setPickedImage] = useState<PickedImage | null>(null);
+  const [caption, setCaption] = useState('');
+  const [sketch, setSketch] = useState<Sketch>({ strokes: [] });
+  const [sketchColor, setSketchColor] = useState(0);
+  const [sketchWidth, setSketchWidth] = useState(SKETCH_WIDTHS[1]);
+  const [isSketching, setIsSketching] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [sealed, setSealed] = useState(false);
+  const [unlockAt, setUnlockAt] = useState<Date>(() => {
+    const date = startOfTomorrow();
+    date.setDate(date.getDate() + 6);
+    return date;
+  });
+  const [drawNextOnUnlock, setDrawNextOnUnlock] = useState(true);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [editingCard, setEditingCard] = useState<Card | null>(null);
   const recordingTimerRef = useRef<NodeJS.Timeout | null>(null);
   const recordingRef = useRef<Audio.Recording | null>(null);
 
@@ -118,17 +154,19 @@ export default function CreateCardScreen({ navigation }: any) {
 
       // Try to create recording, with retry on "only one recording" error
       let newRecording: Audio.Recording;
+      // ADTS AAC rather than .m4a: it has no index at the end of the file, so the
+      // partner's phone can start playing it before it is fully decrypted
       const recordingOptions = {
         android: {
-          extension: '.m4a',
-          outputFormat: Audio.AndroidOutputFormat.MPEG_4,
+          extension: '.aac',
+          outputFormat: Audio.AndroidOutputFormat.AAC_ADTS,
           audioEncoder: Audio.AndroidAudioEncoder.AAC,
           sampleRate: 44100,
           numberOfChannels: 2,
           bitRate: 128000,
         },
         ios: {
-          extension: '.m4a',
+          extension: '.aac',
           outputFormat: Audio.IOSOutputFormat.MPEG4AAC,
           audioQuality: Audio.IOSAudioQuality.MAX,
           sampleRate: 44100,
@@ -207,9 +245,10 @@ export default function CreateCardScreen({ navigation }: any) {
       }
       
       if (currentRecording) {
-        await currentRecording.stopAndUnloadAsync();
+        const status = await currentRecording.stopAndUnloadAsync();
         const uri = currentRecording.getURI();
         setRecordingUri(uri || null);
+        setRecordedDurationMs(status.durationMillis);
         setRecording(null);
         recordingRef.current = null;
       }
@@ -225,6 +264,35 @@ export default function CreateCardScreen({ navigation }: any) {
     await handleStopRecording();
   };
 
+  useEffect(() => {
+    if (inReplyTo) {
+      navigation.setOptions({ title: 'Write Back' });
+    }
+  }, [inReplyTo]);
+
+  // Load the card being edited and prefill its text
+  useEffect(() => {
+    if (!editCardId || !user) return;
+
+    navigation.setOptions({ title: 'Edit Card' });
+    (async () => {
+      try {
+        const card = await cardService.getCard(editCardId);
+        if (!card || !cardService.canEdit(card, user.id)) {
+          throw new Error('This note can no longer be edited');
+        }
+        const sharedSecret = await pairKeyService.getCardSecret(user.id, card);
+        const decrypted = await cardService.decryptCard(card, sharedSecret);
+        setEditingCard(card);
+        setSelectedTemplate(decrypted.metadata.templateId ?? null);
+        setTextContent(decrypted.text ?? '');
+      } catch (error: any) {
+        Alert.alert('Error', error.message || 'Failed to load note');
+        navigation.goBack();
+      }
+    })();
+  }, [editCardId]);
+
   // Cleanup timer on unmount
   useEffect(() => {
     return () => {
@@ -234,7 +302,72 @@ export default function CreateCardScreen({ navigation }: any) {
     };
   }, []);
 
+  const pickImage = async (source: 'library' | 'camera') => {
+    try {
+      const permission = source === 'camera'
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert(
+          'Permission Denied',
+          source === 'camera' ? 'Please grant camera permission' : 'Please grant photo library permission'
+        );
+        return;
+      }
+
+      const options: ImagePicker.ImagePickerOptions = {
+        mediaTypes: ['images'],
+        allowsEditing: true,
+        quality: 1, // Downscaled and compressed when the card is saved
+      };
+      const result = source === 'camera'
+        ? await ImagePicker.launchCameraAsync(options)
+        : await ImagePicker.launchImageLibraryAsync(options);
+      if (!result.canceled && result.assets[0]) {
+        const { uri, width, height } = result.assets[0];
+        setPickedImage({ uri, width, height });
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to pick a photo');
+    }
+  };
+
+  const handleUnlockDateChange = (event: DateTimePickerEvent, date?: Date) => {
+    // Android shows the picker as a dialog that closes on any choice
+    if (Platform.OS === 'android') {
+      setShowDatePicker(false);
+    }
+    if (event.type === 'set' && date) {
+      setUnlockAt(date);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!user || !editingCard) return;
+
+    if (!textContent.trim()) {
+      Alert.alert('Error', 'Please enter some text');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const sharedSecret = await pairKeyService.getCardSecret(user.id, editingCard);
+      await cardService.editTextCard(editingCard, user.id, textContent.trim(), sharedSecret);
+      navigation.goBack();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleSave = async () => {
+    if (editCardId) {
+      await handleSaveEdit();
+      return;
+    }
+
     if (!user?.partnerId || !partner) {
       Alert.alert('Error', 'Partner connection required');
       return;
@@ -255,25 +388,59 @@ export default function CreateCardScreen({ navigation }: any) {
       return;
     }
 
+    if (cardType === 'image' && !pickedImage) {
+      Alert.alert('Error', 'Please choose or take a photo');
+      return;
+    }
+
+    if (cardType === 'sketch' && sketch.strokes.length === 0) {
+      Alert.alert('Error', 'Please draw something');
+      return;
+    }
+
+    if (sealed && unlockAt.getTime() < startOfTomorrow().getTime()) {
+      Alert.alert('Error', 'Choose an unlock date from tomorrow on');
+      return;
+    }
+
+    const capsule = sealed ? { unlockAt, drawNextOnUnlock } : undefined;
+
     setSaving(true);
     try {
-      // Get shared secret
-      const partnerPublicKey = await partnerService.getPartnerPublicKey(
-        user.id,
-        user.partnerId
-      );
-      const sharedSecret = await encryptionService.getSharedSecret(
-        user.partnerId,
-        partnerPublicKey
-      );
+      // Get shared secret for the pair's current key epoch
+      const sharedSecret = await pairKeyService.getPairSecret(user.id, user.partnerId);
 
       if (cardType === 'text') {
         await cardService.createTextCard(
           user.partnerId,
           user.id,
+          partner.id,
           textContent.trim(),
+          sharedSecret,
           selectedTemplate || undefined,
-          sharedSecret
+          capsule,
+          inReplyTo
+        );
+      } else if (cardType === 'image') {
+        await cardService.createImageCard(
+          user.partnerId,
+          user.id,
+          partner.id,
+          pickedImage!,
+          sharedSecret,
+          caption.trim() || undefined,
+          capsule,
+          inReplyTo
+        );
+      } else if (cardType === 'sketch') {
+        await cardService.createSketchCard(
+          user.partnerId,
+          user.id,
+          partner.id,
+          sketch,
+          sharedSecret,
+          capsule,
+          inReplyTo
         );
       } else {
         // Extract audio format from URI
@@ -285,9 +452,13 @@ export default function CreateCardScreen({ navigation }: any) {
         await cardService.createVoiceCard(
           user.partnerId,
           user.id,
+          partner.id,
           recordingUri!,
           sharedSecret,
-          audioFormat
+          audioFormat,
+          recordedDurationMs,
+          capsule,
+          inReplyTo
         );
       }
 
@@ -307,10 +478,25 @@ export default function CreateCardScreen({ navigation }: any) {
         behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
         style={styles.container}
       >
-        <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
-        <Text style={styles.title}>Create a Card</Text>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.content}
+          scrollEnabled={!isSketching}
+        >
+        <Text style={styles.title}>{editCardId ? 'Edit Your Card' : 'Create a Card'}</Text>
 
-        {/* Card Type Selection */}
+        {inReplyTo && (
+          <View style={styles.replyBanner}>
+            <Text style={styles.replyBannerText}>
+              ↩ Writing back to the note you drew. Your partner will see it alongside your reply.
+            </Text>
+          </View>
+        )}
+
+        {editCardId && !editingCard && <ActivityIndicator color="#6366f1" />}
+
+        {/* Card Type Selection (edits are text only) */}
+        {!editCardId && (
         <View style={styles.typeSelector}>
           <TouchableOpacity
             style={[
@@ -344,10 +530,43 @@ export default function CreateCardScreen({ navigation }: any) {
               Voice
             </Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.typeButton,
+              cardType === 'image' && styles.typeButtonActive,
+            ]}
+            onPress={() => setCardType('image')}
+          >
+            <Text
+              style={[
+                styles.typeButtonText,
+                cardType === 'image' && styles.typeButtonTextActive,
+              ]}
+            >
+              Photo
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.typeButton,
+              cardType === 'sketch' && styles.typeButtonActive,
+            ]}
+            onPress={() => setCardType('sketch')}
+          >
+            <Text
+              style={[
+                styles.typeButtonText,
+                cardType === 'sketch' && styles.typeButtonTextActive,
+              ]}
+            >
+              Sketch
+            </Text>
+          </TouchableOpacity>
         </View>
+        )}
 
-        {/* Templates (Text only) */}
-        {cardType === 'text' && (
+        {/* Templates (Text only, new cards only) */}
+        {cardType === 'text' && !editCardId && (
           <View style={styles.templatesSection}>
             <Text style={styles.sectionTitle}>Templates</Text>
             <ScrollView horizontal showsHorizontalScrollIndicator={false}>
@@ -435,15 +654,170 @@ export default function CreateCardScreen({ navigation }: any) {
           </View>
         )}
 
+        {/* Photo */}
+        {cardType === 'image' && (
+          <View style={styles.imageSection}>
+            {pickedImage ? (
+              <Image
+                source={{ uri: pickedImage.uri }}
+                style={[styles.imagePreview, { aspectRatio: pickedImage.width / pickedImage.height }]}
+                resizeMode="contain"
+              />
+            ) : (
+              <Text style={styles.imageHint}>
+                Photos are downscaled and encrypted before they leave your phone.
+              </Text>
+            )}
+            <View style={styles.imageButtons}>
+              <TouchableOpacity
+                style={styles.imageButton}
+                onPress={() => pickImage('library')}
+                disabled={saving}
+              >
+                <Text style={styles.imageButtonText}>🖼 Choose Photo</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.imageButton}
+                onPress={() => pickImage('camera')}
+                disabled={saving}
+              >
+                <Text style={styles.imageButtonText}>📷 Take Photo</Text>
+              </TouchableOpacity>
+            </View>
+            <TextInput
+              style={styles.captionInput}
+              placeholder="Add a caption (optional)"
+              value={caption}
+              onChangeText={setCaption}
+              maxLength={100}
+              editable={!saving}
+            />
+            <Text style={styles.charCount}>
+              {caption.length}/100
+            </Text>
+          </View>
+        )}
+
+        {/* Sketch */}
+        {cardType === 'sketch' && (
+          <View style={styles.sketchSection}>
+            <SketchCanvas
+              sketch={sketch}
+              onChange={setSketch}
+              color={sketchColor}
+              width={sketchWidth}
+              disabled={saving}
+              onDrawingChange={setIsSketching}
+            />
+            <View style={styles.sketchToolbar}>
+              {SKETCH_COLORS.map((color, index) => (
+                <TouchableOpacity
+                  key={color}
+                  style={[
+                    styles.colorSwatch,
+                    { backgroundColor: color },
+                    sketchColor === index && styles.colorSwatchActive,
+                  ]}
+                  onPress={() => setSketchColor(index)}
+                />
+              ))}
+            </View>
+            <View style={styles.sketchToolbar}>
+              {SKETCH_WIDTHS.map((width) => (
+                <TouchableOpacity
+                  key={width}
+                  style={[styles.widthButton, sketchWidth === width && styles.widthButtonActive]}
+                  onPress={() => setSketchWidth(width)}
+                >
+                  <View
+                    style={[
+                      styles.widthDot,
+                      { width: width / 2 + 2, height: width / 2 + 2, backgroundColor: SKETCH_COLORS[sketchColor] },
+                    ]}
+                  />
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={styles.sketchAction}
+                onPress={() => setSketch({ strokes: sketch.strokes.slice(0, -1) })}
+                disabled={saving || sketch.strokes.length === 0}
+              >
+                <Text style={styles.sketchActionText}>Undo</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.sketchAction}
+                onPress={() => setSketch({ strokes: [] })}
+                disabled={saving || sketch.strokes.length === 0}
+              >
+                <Text style={styles.sketchActionText}>Clear</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Time Capsule (new cards only) */}
+        {!editCardId && (
+        <View style={styles.capsuleSection}>
+          <View style={styles.toggleRow}>
+            <View style={styles.toggleLabel}>
+              <Text style={styles.toggleTitle}>Seal until a date</Text>
+              <Text style={styles.toggleHint}>
+                Your partner can't draw this card before it unlocks
+              </Text>
+            </View>
+            <Switch value={sealed} onValueChange={setSealed} disabled={saving} />
+          </View>
+
+          {sealed && (
+            <>
+              {Platform.OS === 'android' && (
+                <TouchableOpacity
+                  style={styles.dateButton}
+                  onPress={() => setShowDatePicker(true)}
+                  disabled={saving}
+                >
+                  <Text style={styles.dateButtonText}>
+                    Unlocks {unlockAt.toLocaleDateString()}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {(Platform.OS === 'ios' || showDatePicker) && (
+                <DateTimePicker
+                  value={unlockAt}
+                  mode="date"
+                  display={Platform.OS === 'ios' ? 'inline' : 'default'}
+                  minimumDate={startOfTomorrow()}
+                  onChange={handleUnlockDateChange}
+                />
+              )}
+
+              <View style={styles.toggleRow}>
+                <View style={styles.toggleLabel}>
+                  <Text style={styles.toggleTitle}>Draw it next once it unlocks</Text>
+                  <Text style={styles.toggleHint}>
+                    Otherwise it joins the deck like any other card
+                  </Text>
+                </View>
+                <Switch
+                  value={drawNextOnUnlock}
+                  onValueChange={setDrawNextOnUnlock}
+                  disabled={saving}
+                />
+              </View>
+            </>
+          )}
+        </View>
+        )}
+
         <TouchableOpacity
           style={[styles.saveButton, saving && styles.saveButtonDisabled]}
           onPress={handleSave}
-          disabled={saving}
+          disabled={saving || (!!editCardId && !editingCard)}
         >
           {saving ? (
             <ActivityIndicator color="#fff" />
           ) : (
-            <Text style={styles.saveButtonText}>Save Card</Text>
+            <Text style={styles.saveButtonText}>{editCardId ? 'Save Changes' : 'Save Card'}</Text>
           )}
         </TouchableOpacity>
         </ScrollView>
@@ -473,6 +847,16 @@ const styles = StyleSheet.create({
     marginBottom: 24,
     color: '#333',
   },
+  replyBanner: {
+    backgroundColor: '#eef2ff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 24,
+  },
+  replyBannerText: {
+    fontSize: 14,
+    color: '#6366f1',
+  },
   typeSelector: {
     flexDirection: 'row',
     marginBottom: 24,
@@ -480,7 +864,8 @@ const styles = StyleSheet.create({
   },
   typeButton: {
     flex: 1,
-    padding: 16,
+    paddingVertical: 16,
+    paddingHorizontal: 8,
     borderRadius: 8,
     backgroundColor: '#f5f5f5',
     alignItems: 'center',
@@ -588,6 +973,127 @@ const styles = StyleSheet.create({
     color: '#6366f1',
     fontSize: 14,
   },
+  imageSection: {
+    marginBottom: 24,
+  },
+  imagePreview: {
+    width: '100%',
+    maxHeight: 320,
+    borderRadius: 8,
+    marginBottom: 12,
+    backgroundColor: '#f5f5f5',
+  },
+  imageHint: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  imageButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  imageButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#eef2ff',
+    alignItems: 'center',
+  },
+  imageButtonText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  sketchSection: {
+    marginBottom: 24,
+  },
+  sketchToolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 12,
+  },
+  colorSwatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  colorSwatchActive: {
+    borderColor: '#333',
+  },
+  widthButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#f5f5f5',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  widthButtonActive: {
+    backgroundColor: '#eef2ff',
+    borderWidth: 1,
+    borderColor: '#6366f1',
+  },
+  widthDot: {
+    borderRadius: 12,
+  },
+  sketchAction: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#eef2ff',
+  },
+  sketchActionText: {
+    color: '#6366f1',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  captionInput: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  capsuleSection: {
+    marginBottom: 24,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 12,
+  },
+  toggleLabel: {
+    flex: 1,
+  },
+  toggleTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  toggleHint: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  dateButton: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#eef2ff',
+    alignItems: 'center',
+    marginVertical: 8,
+  },
+  dateButtonText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   saveButton: {
     backgroundColor: '#6366f1',
     borderRadius: 8,
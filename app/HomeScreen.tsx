@@ -14,21 +14,37 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../contexts/AuthContext';
 import { usePartner } from '../contexts/PartnerContext';
 import { cardService } from '../services/cards';
-import { encryptionService } from '../services/encryption';
-import { partnerService } from '../services/partner';
-import type { Card } from '../types';
+import { pairKeyService } from '../services/pairKeys';
+import { reactionService } from '../services/reactions';
+import { verificationService } from '../services/verification';
+import type { Card, RecentDraw, VerificationStatus } from '../types';
+
+/**
+ * "1 sealed card unlocks in 12 days" - counts only, never content
+ */
+function formatSealedCards(count: number, nextUnlockAt: Date): string {
+  const days = Math.max(1, Math.ceil((nextUnlockAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+  const inDays = `in ${days} ${days === 1 ? 'day' : 'days'}`;
+  return count === 1
+    ? `1 sealed card unlocks ${inDays}`
+    : `${count} sealed cards · next unlocks ${inDays}`;
+}
 
 export default function HomeScreen({ navigation }: any) {
   const { user } = useAuth();
   const { partner, connectionStatus } = usePartner();
-  const [recentCards, setRecentCards] = useState<Card[]>([]);
+  const [recentCards, setRecentCards] = useState<RecentDraw[]>([]);
   const [loading, setLoading] = useState(true);
   const [hasCards, setHasCards] = useState<boolean | null>(null);
+  const [completedCycles, setCompletedCycles] = useState(0);
+  const [sealedCards, setSealedCards] = useState<Card[]>([]);
+  const [drawReactions, setDrawReactions] = useState<Record<string, string>>({}); // drawId -> reaction
   const [cooldownInfo, setCooldownInfo] = useState<{
     allowed: boolean;
     remainingMinutes: number;
     remainingSeconds: number;
   } | null>(null);
+  const [verificationStatus, setVerificationStatus] = useState<VerificationStatus | null>(null);
   const hasNavigatedRef = useRef(false);
   const hasLoadedRef = useRef(false);
 
@@ -52,7 +68,10 @@ export default function HomeScreen({ navigation }: any) {
           hasLoadedRef.current = true;
           loadRecentCards();
           checkHasCards();
+          loadCompletedCycles();
+          loadSealedCards();
           checkCooldown();
+          completePendingKeyRotation();
         }
       } else {
         hasLoadedRef.current = false;
@@ -66,8 +85,10 @@ export default function HomeScreen({ navigation }: any) {
     if (!user?.partnerId) return;
 
     try {
-      const draws = await cardService.getRecentDraws(user.partnerId, 5);
-      setRecentCards(draws as any);
+      // Draws of cards their creator has since deleted aren't shown
+      const draws = (await cardService.getRecentDraws(user.partnerId, 5)).filter((draw) => !draw.deleted);
+      setRecentCards(draws);
+      loadDrawReactions(draws);
     } catch (error) {
       console.error('Error loading recent cards:', error);
     } finally {
@@ -75,6 +96,27 @@ export default function HomeScreen({ navigation }: any) {
     }
   };
 
+  // Decrypt the drawer's reaction to each recent draw, by card ID; reactions that can't be opened just show none
+  const loadDrawReactions = async (draws: RecentDraw[]) => {
+    if (!user?.partnerId) return;
+    const pairId = user.partnerId;
+
+    const reactions: Record<string, string> = {};
+    await Promise.all(
+      draws.map(async (draw) => {
+        try {
+          const reaction = await reactionService.getReaction(user.id, pairId, draw.cardId, draw.viewedBy);
+          if (reaction) {
+            reactions[draw.id] = reaction;
+          }
+        } catch (error) {
+          console.error('Error loading reaction:', error);
+        }
+      })
+    );
+    setDrawReactions(reactions);
+  };
+
 
   const checkHasCards = async () => {
     if (!user?.partnerId) return;
@@ -88,6 +130,63 @@ export default function HomeScreen({ navigation }: any) {
     }
   };
 
+  const loadCompletedCycles = async () => {
+    if (!user?.partnerId || !user?.id) return;
+
+    try {
+      setCompletedCycles(await cardService.getCompletedCycles(user.partnerId, user.id));
+    } catch (error) {
+      console.error('Error loading deck cycles:', error);
+    }
+  };
+
+  const loadSealedCards = async () => {
+    if (!user?.partnerId || !user?.id) return;
+
+    try {
+      setSealedCards(await cardService.getSealedCards(user.partnerId, user.id));
+    } catch (error) {
+      console.error('Error loading sealed cards:', error);
+    }
+  };
+
+  // Warn if the partner's key no longer matches the one we verified; loudly unless a rotation explains it
+  const checkPartnerKey = useCallback(async () => {
+    if (!user?.partnerId) return;
+
+    try {
+      const verification = await verificationService.getVerification(user, user.partnerId);
+      setVerificationStatus(verification.status);
+    } catch (error) {
+      console.error('Error checking partner key:', error);
+    }
+  }, [user]);
+
+  // Re-check on focus so the warning clears after re-verifying
+  useEffect(() => {
+    return navigation.addListener('focus', checkPartnerKey);
+  }, [navigation, checkPartnerKey]);
+
+  // Refresh recent draws on return, e.g. after reacting to a card
+  useEffect(() => {
+    return navigation.addListener('focus', () => {
+      if (hasLoadedRef.current) {
+        loadRecentCards();
+      }
+    });
+  }, [navigation, user?.partnerId]);
+
+  // Contribute our key if the partner started a key rotation while we were away, or move our cards to one they completed
+  const completePendingKeyRotation = async () => {
+    if (!user?.partnerId || !user?.id) return;
+
+    try {
+      await pairKeyService.completePendingRotation(user.id, user.partnerId);
+    } catch (error) {
+      console.error('Error completing key rotation:', error);
+    }
+  };
+
   const checkCooldown = useCallback(async () => {
     if (!user?.partnerId || !user?.id) return;
 
@@ -146,32 +245,25 @@ export default function HomeScreen({ navigation }: any) {
     }
 
     try {
-      // Get shared secret
-      const partnerPublicKey = await partnerService.getPartnerPublicKey(
-        user.id,
-        user.partnerId
-      );
-      const sharedSecret = await encryptionService.getSharedSecret(
-        user.partnerId,
-        partnerPublicKey
-      );
-
       // Draw card
-      const card = await cardService.drawRandomCard(
-        user.partnerId,
-        user.id,
-        sharedSecret
-      );
-
-      if (card) {
-        navigation.navigate('ViewCard', { cardId: card.id });
+      const result = await cardService.drawRandomCard(user.partnerId, user.id);
+
+      if (result.status === 'drawn') {
+        navigation.navigate('ViewCard', { cardId: result.card.id });
+      } else if (result.status === 'already-drawn') {
+        Alert.alert('Already Drawn', 'You just drew a card on another tap or device.');
+      } else if (sealedCards.length > 0) {
+        Alert.alert('No Cards Yet', 'Every card in your deck is still sealed.');
       } else {
         Alert.alert('No Cards', 'There are no cards available to draw.');
       }
 
-      // Refresh cooldown and recent cards
+      // Refresh cooldown, recent cards, the cycle count (a draw may start a new cycle)
+      // and sealed cards (one may have just unlocked)
       await checkCooldown();
       await loadRecentCards();
+      await loadCompletedCycles();
+      await loadSealedCards();
     } catch (error: any) {
       console.error('Error drawing card:', error);
       Alert.alert('Error', error.message || 'Failed to draw card. Please try again.');
@@ -206,6 +298,32 @@ export default function HomeScreen({ navigation }: any) {
         )}
       </View>
 
+      {verificationStatus === 'rotated' && (
+        <TouchableOpacity
+          style={styles.keyNotice}
+          onPress={() => navigation.navigate('VerifyPartner')}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.keyNoticeTitle}>Your keys were rotated</Text>
+          <Text style={styles.keyNoticeText}>
+            Your safety number changed with the new keys. Tap to compare it again next time you're together.
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {verificationStatus === 'changed' && (
+        <TouchableOpacity
+          style={styles.keyWarning}
+          onPress={() => navigation.navigate('VerifyPartner')}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.keyWarningTitle}>⚠️ Your partner's key has changed</Text>
+          <Text style={styles.keyWarningText}>
+            Someone may be intercepting your notes. Tap to compare safety numbers before writing anything private.
+          </Text>
+        </TouchableOpacity>
+      )}
+
       <View style={styles.actionsContainer}>
         <TouchableOpacity 
           style={styles.actionButton} 
@@ -248,17 +366,38 @@ export default function HomeScreen({ navigation }: any) {
         </TouchableOpacity>
       </View>
 
+      {completedCycles > 0 && (
+        <Text style={styles.cycleText}>
+          You've gone through your deck {completedCycles} {completedCycles === 1 ? 'time' : 'times'}
+        </Text>
+      )}
+
+      {sealedCards.length > 0 && sealedCards[0].unlockAt && (
+        <Text style={styles.cycleText}>
+          {formatSealedCards(sealedCards.length, sealedCards[0].unlockAt)}
+        </Text>
+      )}
+
+      <TouchableOpacity
+        style={styles.myCardsLink}
+        onPress={() => navigation.navigate('MyCards')}
+      >
+        <Text style={styles.myCardsLinkText}>Notes you've written</Text>
+      </TouchableOpacity>
+
       {recentCards.length > 0 && (
         <View style={styles.recentSection}>
           <Text style={styles.sectionTitle}>Recent Cards</Text>
-          {recentCards.map((draw: any) => (
+          {recentCards.map((draw) => (
             <TouchableOpacity
               key={draw.id}
               style={styles.recentCard}
               onPress={() => navigation.navigate('ViewCard', { cardId: draw.cardId })}
             >
               <Text style={styles.recentCardText}>
-                Card drawn {new Date(draw.drawnAt).toLocaleDateString()}
+                {draw.viewedBy === user?.id ? 'You drew a card' : 'Your partner drew your card'}{' '}
+                {new Date(draw.drawnAt).toLocaleDateString()}
+                {drawReactions[draw.id] ? `  ${drawReactions[draw.id]}` : ''}
               </Text>
             </TouchableOpacity>
           ))}
@@ -323,6 +462,44 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666',
   },
+  keyNotice: {
+    marginHorizontal: 16,
+    marginBottom: 24,
+    padding: 16,
+    backgroundColor: '#fffbeb',
+    borderColor: '#f59e0b',
+    borderWidth: 1,
+    borderRadius: 12,
+  },
+  keyNoticeTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#b45309',
+    marginBottom: 4,
+  },
+  keyNoticeText: {
+    fontSize: 14,
+    color: '#78350f',
+  },
+  keyWarning: {
+    marginHorizontal: 16,
+    marginBottom: 24,
+    padding: 16,
+    backgroundColor: '#fef2f2',
+    borderColor: '#ef4444',
+    borderWidth: 1,
+    borderRadius: 12,
+  },
+  keyWarningTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#b91c1c',
+    marginBottom: 4,
+  },
+  keyWarningText: {
+    fontSize: 14,
+    color: '#7f1d1d',
+  },
   actionsContainer: {
     flexDirection: 'column',
     paddingHorizontal: 16,
@@ -377,6 +554,21 @@ const styles = StyleSheet.create({
     marginTop: 4,
     opacity: 0.8,
   },
+  cycleText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  myCardsLink: {
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 12,
+  },
+  myCardsLinkText: {
+    color: '#6366f1',
+    fontSize: 16,
+  },
   recentSection: {
     paddingHorizontal: 24,
     marginBottom: 24,
@@ -0,0 +1,282 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { useAuth } from '../contexts/AuthContext';
+import { keyBackupService } from '../services/keyBackup';
+import { deviceLinkService, DeviceLinkSession } from '../services/deviceLink';
+
+export default function KeyRecoveryScreen() {
+  const { user, restorePrivateKey, refreshPrivateKey, logout } = useAuth();
+  const [hasBackup, setHasBackup] = useState<boolean | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [restoring, setRestoring] = useState(false);
+  const [linkSession, setLinkSession] = useState<DeviceLinkSession | null>(null);
+  const [startingLink, setStartingLink] = useState(false);
+  const unsubscribeLinkRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    keyBackupService
+      .hasBackup(user.id)
+      .then(setHasBackup)
+      .catch((error) => {
+        console.error('Error checking key backup:', error);
+        setHasBackup(false);
+      });
+  }, [user?.id]);
+
+  // Stop listening for a linked key on unmount
+  useEffect(() => {
+    return () => {
+      unsubscribeLinkRef.current?.();
+    };
+  }, []);
+
+  const handleRestore = async () => {
+    if (!passphrase) {
+      Alert.alert('Error', 'Please enter your backup passphrase');
+      return;
+    }
+
+    setRestoring(true);
+    try {
+      await restorePrivateKey(passphrase);
+      // Navigation handled by AppNavigator once the key is present
+    } catch (error: any) {
+      Alert.alert('Restore Failed', error.message || 'Failed to restore your key');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleStartLink = async () => {
+    if (!user) return;
+
+    setStartingLink(true);
+    try {
+      const session = await deviceLinkService.createLinkRequest(user.id);
+      setLinkSession(session);
+      unsubscribeLinkRef.current = deviceLinkService.waitForPrivateKey(
+        session,
+        user.publicKey,
+        () => {
+          unsubscribeLinkRef.current = null;
+          // Navigation handled by AppNavigator once the key is present
+          refreshPrivateKey();
+        },
+        (error) => {
+          unsubscribeLinkRef.current = null;
+          setLinkSession(null);
+          Alert.alert('Linking Failed', error.message || 'Failed to link this device');
+        }
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to start device linking');
+    } finally {
+      setStartingLink(false);
+    }
+  };
+
+  const handleCancelLink = async () => {
+    if (!linkSession) return;
+
+    unsubscribeLinkRef.current?.();
+    unsubscribeLinkRef.current = null;
+    setLinkSession(null);
+    try {
+      await deviceLinkService.cancelLinkRequest(linkSession.requestId);
+    } catch (error) {
+      console.error('Error cancelling link request:', error);
+    }
+  };
+
+  const handleLogout = async () => {
+    unsubscribeLinkRef.current?.();
+    try {
+      await logout();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to log out');
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.title}>Restore Your Key</Text>
+        <Text style={styles.subtitle}>
+          Your encryption key isn't on this device. Restore it from your passphrase backup,
+          or link this device from a phone where you're already signed in.
+        </Text>
+
+        {hasBackup && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Passphrase Backup</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Backup passphrase"
+              value={passphrase}
+              onChangeText={setPassphrase}
+              secureTextEntry
+              autoCapitalize="none"
+              editable={!restoring}
+            />
+
+            <TouchableOpacity
+              style={[styles.button, restoring && styles.buttonDisabled]}
+              onPress={handleRestore}
+              disabled={restoring}
+            >
+              {restoring ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Restore Key</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Link From Another Device</Text>
+          {linkSession ? (
+            <View style={styles.linkDisplay}>
+              <View style={styles.qrContainer}>
+                <QRCode
+                  value={linkSession.qrValue}
+                  size={220}
+                  color="#000"
+                  backgroundColor="#fff"
+                />
+              </View>
+              <Text style={styles.linkHint}>
+                On your other device, open Settings → Link a New Device and scan this code.
+              </Text>
+              <ActivityIndicator color="#6366f1" />
+              <TouchableOpacity style={styles.linkButton} onPress={handleCancelLink}>
+                <Text style={styles.linkText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={[styles.button, startingLink && styles.buttonDisabled]}
+              onPress={handleStartLink}
+              disabled={startingLink}
+            >
+              {startingLink ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Show Link Code</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={styles.linkButton}
+          onPress={handleLogout}
+          disabled={restoring}
+        >
+          <Text style={styles.linkText}>Log out</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 8,
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 32,
+    color: '#666',
+  },
+  section: {
+    marginBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+    color: '#333',
+  },
+  linkDisplay: {
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#f9fafb',
+    borderRadius: 12,
+  },
+  qrContainer: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  linkHint: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  linkText: {
+    color: '#6366f1',
+    fontSize: 14,
+  },
+});
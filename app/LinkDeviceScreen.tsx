@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../contexts/AuthContext';
+import { deviceLinkService } from '../services/deviceLink';
+
+export default function LinkDeviceScreen({ navigation }: any) {
+  const { user } = useAuth();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [linking, setLinking] = useState(false);
+
+  const handleScan = async ({ data }: { data: string }) => {
+    if (linking || !user) return;
+
+    setLinking(true);
+    try {
+      await deviceLinkService.approveLinkRequest(data, user);
+      Alert.alert('Device Linked', 'Your other device now has access to your notes.', [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (error: any) {
+      Alert.alert('Linking Failed', error.message || 'Failed to link device', [
+        { text: 'OK', onPress: () => setLinking(false) },
+      ]);
+    }
+  };
+
+  if (!permission) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['bottom']}>
+      <View style={styles.content}>
+        <Text style={styles.description}>
+          On your new device, sign in and tap "Show Link Code", then scan the code here.
+          Only link devices you own.
+        </Text>
+
+        {permission.granted ? (
+          <View style={styles.cameraContainer}>
+            <CameraView
+              style={styles.camera}
+              facing="back"
+              barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+              onBarcodeScanned={linking ? undefined : handleScan}
+            />
+            {linking && (
+              <View style={styles.cameraOverlay}>
+                <ActivityIndicator size="large" color="#fff" />
+              </View>
+            )}
+          </View>
+        ) : (
+          <TouchableOpacity style={styles.button} onPress={requestPermission}>
+            <Text style={styles.buttonText}>Allow Camera Access</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+  },
+  description: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 24,
+    textAlign: 'center',
+  },
+  cameraContainer: {
+    aspectRatio: 1,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  camera: {
+    flex: 1,
+  },
+  cameraOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
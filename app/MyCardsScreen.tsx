@@ -0,0 +1,161 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../contexts/AuthContext';
+import { cardService } from '../services/cards';
+import { reactionService } from '../services/reactions';
+import type { Card } from '../types';
+
+/**
+ * Where a card the user wrote stands in their partner's deck
+ */
+function getCardStatus(card: Card): string {
+  if (card.unlockAt && card.unlockAt.getTime() > Date.now()) {
+    return `Sealed until ${card.unlockAt.toLocaleDateString()}`;
+  }
+  if (card.isRead || card.lastDrawnAt) {
+    return 'Drawn';
+  }
+  return 'Waiting to be drawn';
+}
+
+export default function MyCardsScreen({ navigation }: any) {
+  const { user } = useAuth();
+  const [cards, setCards] = useState<Card[]>([]);
+  const [reactions, setReactions] = useState<Record<string, string>>({}); // cardId -> partner's reaction
+  const [loading, setLoading] = useState(true);
+
+  const loadCards = useCallback(async () => {
+    if (!user?.partnerId) return;
+
+    try {
+      const allCards = await cardService.getAllCards(user.partnerId);
+      const ownCards = allCards.filter((card) => card.creatorId === user.id);
+      setCards(ownCards);
+      loadReactions(ownCards);
+    } catch (error) {
+      console.error('Error loading your cards:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  // Decrypt the partner's reaction to each card they've drawn
+  const loadReactions = async (ownCards: Card[]) => {
+    if (!user) return;
+
+    const found: Record<string, string> = {};
+    await Promise.all(
+      ownCards
+        .filter((card) => card.isRead || card.lastDrawnAt)
+        .map(async (card) => {
+          try {
+            const [reaction] = await reactionService.getReactions(user.id, card.pairId, card.id);
+            if (reaction) {
+              found[card.id] = reaction.reaction;
+            }
+          } catch (error) {
+            console.error('Error loading reaction:', error);
+          }
+        })
+    );
+    setReactions(found);
+  };
+
+  // Reload on focus so edits and deletions show up on return
+  useEffect(() => {
+    return navigation.addListener('focus', loadCards);
+  }, [navigation, loadCards]);
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top']}>
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <Text style={styles.description}>
+          You can edit a text note until your partner draws it, and delete any note you wrote.
+        </Text>
+
+        {cards.length === 0 && (
+          <Text style={styles.emptyText}>You haven't written any notes yet.</Text>
+        )}
+
+        {cards.map((card) => (
+          <TouchableOpacity
+            key={card.id}
+            style={styles.cardRow}
+            onPress={() => navigation.navigate('ViewCard', { cardId: card.id })}
+          >
+            <Text style={styles.cardDate}>
+              Written {card.createdAt.toLocaleDateString()}
+              {card.editedAt ? ' · edited' : ''}
+            </Text>
+            <Text style={styles.cardStatus}>
+              {getCardStatus(card)}
+              {reactions[card.id] ? ` · your partner reacted ${reactions[card.id]}` : ''}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 24,
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  cardRow: {
+    backgroundColor: '#f9fafb',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 8,
+  },
+  cardDate: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cardStatus: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+});
@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
+  TextInput,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
@@ -11,12 +12,237 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../contexts/AuthContext';
 import { usePartner } from '../contexts/PartnerContext';
+import { keyBackupService } from '../services/keyBackup';
+import { deckExportService } from '../services/deckExport';
+import { cardService } from '../services/cards';
+import { pairKeyService } from '../services/pairKeys';
+import { verificationService } from '../services/verification';
+import { MIN_PASSPHRASE_LENGTH } from '../services/keyWrap';
+import type { DrawStrategyName, VerificationStatus } from '../types';
+
+const DRAW_STRATEGY_OPTIONS: { value: DrawStrategyName; label: string }[] = [
+  { value: 'uniform', label: 'Random' },
+  { value: 'least-recently-drawn', label: 'Longest since last drawn' },
+  { value: 'oldest-first', label: 'Oldest first' },
+  { value: 'newest-first', label: 'Newest first' },
+];
 
 export default function SettingsScreen({ navigation }: any) {
   const { user, logout } = useAuth();
   const { partner, breakup } = usePartner();
   const [breakingUp, setBreakingUp] = useState(false);
   const [loggingOut, setLoggingOut] = useState(false);
+  const [hasBackup, setHasBackup] = useState<boolean | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [backingUp, setBackingUp] = useState(false);
+  const [backupCurrent, setBackupCurrent] = useState(true);
+  const [previousKeyBackup, setPreviousKeyBackup] = useState(false);
+  const [recovering, setRecovering] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [drawStrategy, setDrawStrategy] = useState<DrawStrategyName | null>(null);
+  const [rotationPending, setRotationPending] = useState(false);
+  const [rotating, setRotating] = useState(false);
+  const [verificationStatus, setVerificationStatus] = useState<VerificationStatus | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    keyBackupService
+      .hasBackup(user.id)
+      .then(async (exists) => {
+        setHasBackup(exists);
+        if (exists) {
+          setBackupCurrent(await keyBackupService.isBackupCurrent(user.id));
+          setPreviousKeyBackup(await keyBackupService.isBackupForPreviousKey(user.id, user.publicKey));
+        }
+      })
+      .catch((error) => {
+        console.error('Error checking key backup:', error);
+        setHasBackup(null);
+      });
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!user?.partnerId) return;
+
+    cardService
+      .getDrawStrategy(user.partnerId)
+      .then(setDrawStrategy)
+      .catch((error) => console.error('Error loading draw strategy:', error));
+  }, [user?.partnerId]);
+
+  useEffect(() => {
+    if (!user?.id || !user?.partnerId) return;
+
+    pairKeyService
+      .isRotationPending(user.id, user.partnerId)
+      .then(setRotationPending)
+      .catch((error) => console.error('Error checking key rotation:', error));
+  }, [user?.id, user?.partnerId]);
+
+  // Re-check on focus so the status updates after returning from the safety number screen
+  useEffect(() => {
+    return navigation.addListener('focus', () => {
+      if (!user?.partnerId) return;
+
+      verificationService
+        .getVerification(user, user.partnerId)
+        .then((verification) => setVerificationStatus(verification.status))
+        .catch((error) => console.error('Error loading verification:', error));
+    });
+  }, [navigation, user]);
+
+  const rotateKeys = async (reencrypt: boolean) => {
+    if (!user?.partnerId) return;
+
+    setRotating(true);
+    try {
+      const completed = await pairKeyService.rotatePairKey(user.id, user.partnerId, reencrypt);
+      setRotationPending(!completed);
+      if (hasBackup) {
+        setBackupCurrent(false);
+      }
+      Alert.alert(
+        'Keys Rotated',
+        completed
+          ? 'New notes are now encrypted with your new keys.'
+          : 'Your new key is ready. The rotation completes the next time your partner opens the app.'
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to rotate keys');
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  const handleRotateKeys = () => {
+    Alert.alert(
+      'Rotate Encryption Keys',
+      'New notes will be encrypted with fresh keys. You can also re-encrypt your existing deck so old keys are no longer needed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Rotate', onPress: () => rotateKeys(false) },
+        { text: 'Rotate & Re-encrypt', onPress: () => rotateKeys(true) },
+      ]
+    );
+  };
+
+  const handleBackupKey = async () => {
+    if (!user) return;
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      Alert.alert('Error', `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+
+    if (passphrase !== confirmPassphrase) {
+      Alert.alert('Error', 'Passphrases do not match');
+      return;
+    }
+
+    setBackingUp(true);
+    try {
+      await keyBackupService.createBackup(user.id, user.publicKey, passphrase);
+      setHasBackup(true);
+      setBackupCurrent(true);
+      setPreviousKeyBackup(false);
+      setPassphrase('');
+      setConfirmPassphrase('');
+      Alert.alert(
+        'Key Backed Up',
+        'Keep your passphrase safe. Without it, the backup cannot be opened - not even by us.'
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to back up key');
+    } finally {
+      setBackingUp(false);
+    }
+  };
+
+  const handleRecoverPreviousKey = async () => {
+    if (!user) return;
+
+    if (!passphrase) {
+      Alert.alert('Error', 'Enter the passphrase of your old backup');
+      return;
+    }
+
+    setRecovering(true);
+    try {
+      const previousPublicKey = await keyBackupService.recoverPreviousKey(
+        user.id,
+        user.publicKey,
+        passphrase
+      );
+      // Re-share the old public key so the partner can open the notes written with it
+      if (user.partnerId) {
+        await pairKeyService.publishRetiredKey(user.id, user.partnerId, previousPublicKey);
+      }
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setBackupCurrent(false);
+      Alert.alert(
+        'Old Key Recovered',
+        'Notes written with your old key can be opened again, by you and your partner. Update your backup so it includes both keys.'
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to recover your old key');
+    } finally {
+      setRecovering(false);
+    }
+  };
+
+  const handleDrawStrategy = async (strategy: DrawStrategyName) => {
+    if (!user?.partnerId || strategy === drawStrategy) return;
+
+    const previous = drawStrategy;
+    setDrawStrategy(strategy);
+    try {
+      await cardService.setDrawStrategy(user.partnerId, strategy);
+    } catch (error: any) {
+      setDrawStrategy(previous);
+      Alert.alert('Error', error.message || 'Failed to change how cards are drawn');
+    }
+  };
+
+  const handleExportDeck = async () => {
+    if (!user?.partnerId) return;
+
+    setExporting(true);
+    try {
+      await deckExportService.shareExport(user, user.partnerId);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export your notes');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDeleteBackup = () => {
+    if (!user) return;
+
+    Alert.alert(
+      'Remove Backup',
+      'Without a backup you will lose access to your notes if you lose this device.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await keyBackupService.deleteBackup(user.id);
+              setHasBackup(false);
+              setPreviousKeyBackup(false);
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to remove backup');
+            }
+          },
+        },
+      ]
+    );
+  };
 
   const handleBreakup = () => {
     Alert.alert(
@@ -84,9 +310,189 @@ export default function SettingsScreen({ navigation }: any) {
             <Text style={styles.infoLabel}>Connected with</Text>
             <Text style={styles.infoValue}>{partner.email}</Text>
           </View>
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>Safety number</Text>
+            <Text
+              style={[
+                styles.infoValue,
+                verificationStatus === 'changed' && styles.keyChangedValue,
+              ]}
+            >
+              {verificationStatus === 'verified'
+                ? 'Verified'
+                : verificationStatus === 'changed'
+                  ? 'Key changed!'
+                  : verificationStatus === 'rotated'
+                    ? 'Keys rotated'
+                    : 'Not verified'}
+            </Text>
+          </View>
+          {verificationStatus === 'rotated' && (
+            <Text style={styles.warningText}>
+              Your safety number changed when your keys were rotated. Compare it again next time you're together.
+            </Text>
+          )}
+          {verificationStatus === 'changed' && (
+            <Text style={styles.dangerText}>
+              Your partner's key changed after you verified it. Compare safety numbers again before writing anything private.
+            </Text>
+          )}
+          <TouchableOpacity
+            style={[styles.actionButton, styles.sectionButton]}
+            onPress={() => navigation.navigate('VerifyPartner')}
+          >
+            <Text style={styles.actionButtonText}>
+              {verificationStatus === 'verified' ? 'View Safety Number' : 'Verify Safety Number'}
+            </Text>
+          </TouchableOpacity>
+          {rotationPending && (
+            <Text style={styles.warningText}>
+              Key rotation in progress. It completes the next time your partner opens the app.
+            </Text>
+          )}
+          <TouchableOpacity
+            style={[styles.actionButton, styles.sectionButton]}
+            onPress={handleRotateKeys}
+            disabled={rotating || rotationPending}
+          >
+            {rotating ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.actionButtonText}>Rotate Encryption Keys</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Key Backup */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Key Backup</Text>
+        <Text style={styles.sectionDescription}>
+          {hasBackup
+            ? 'Your encryption key is backed up with a passphrase. Enter a new one to replace it.'
+            : 'Protect your encryption key with a passphrase so you can restore your notes on a new phone.'}
+        </Text>
+        {hasBackup && !backupCurrent && !previousKeyBackup && (
+          <Text style={styles.warningText}>
+            Your keys were rotated since your last backup. Update your backup so it includes the new keys.
+          </Text>
+        )}
+        {previousKeyBackup && (
+          <Text style={styles.warningText}>
+            Your backup holds your previous key. Enter its passphrase and recover it to open notes written before your key changed. Updating the backup first will replace it.
+          </Text>
+        )}
+        <TextInput
+          style={styles.input}
+          placeholder="Passphrase"
+          value={passphrase}
+          onChangeText={setPassphrase}
+          secureTextEntry
+          autoCapitalize="none"
+          editable={!backingUp}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Confirm passphrase"
+          value={confirmPassphrase}
+          onChangeText={setConfirmPassphrase}
+          secureTextEntry
+          autoCapitalize="none"
+          editable={!backingUp}
+        />
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={handleBackupKey}
+          disabled={backingUp}
+        >
+          {backingUp ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.actionButtonText}>
+              {hasBackup ? 'Update Backup' : 'Back Up Key'}
+            </Text>
+          )}
+        </TouchableOpacity>
+        {previousKeyBackup && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.sectionButton]}
+            onPress={handleRecoverPreviousKey}
+            disabled={recovering || backingUp}
+          >
+            {recovering ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.actionButtonText}>Recover Old Notes</Text>
+            )}
+          </TouchableOpacity>
+        )}
+        {hasBackup && (
+          <TouchableOpacity style={styles.linkButton} onPress={handleDeleteBackup}>
+            <Text style={styles.linkText}>Remove Backup</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Drawing */}
+      {partner && drawStrategy && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Drawing</Text>
+          <Text style={styles.sectionDescription}>
+            How the next note is picked from your unread deck. This applies to both of you.
+          </Text>
+          {DRAW_STRATEGY_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={styles.infoRow}
+              onPress={() => handleDrawStrategy(option.value)}
+            >
+              <Text style={styles.infoLabel}>{option.label}</Text>
+              {drawStrategy === option.value && <Text style={styles.infoValue}>✓</Text>}
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Export */}
+      {partner && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Export</Text>
+          <Text style={styles.sectionDescription}>
+            Save a copy of your notes, still encrypted. It can be opened on a computer with your key backup passphrase.
+          </Text>
+          {!hasBackup && (
+            <Text style={styles.warningText}>
+              Back up your key first, or the export can't be opened without this phone.
+            </Text>
+          )}
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={handleExportDeck}
+            disabled={exporting}
+          >
+            {exporting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.actionButtonText}>Export Notes</Text>
+            )}
+          </TouchableOpacity>
         </View>
       )}
 
+      {/* Devices */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Devices</Text>
+        <Text style={styles.sectionDescription}>
+          Use your notes on another phone or tablet by scanning its link code.
+        </Text>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => navigation.navigate('LinkDevice')}
+        >
+          <Text style={styles.actionButtonText}>Link a New Device</Text>
+        </TouchableOpacity>
+      </View>
+
       {/* Actions */}
       <View style={styles.section}>
         {partner && (
@@ -172,6 +578,47 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#333',
   },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#b45309',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  keyChangedValue: {
+    color: '#dc2626',
+    fontWeight: '600',
+  },
+  dangerText: {
+    fontSize: 14,
+    color: '#dc2626',
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  sectionButton: {
+    marginTop: 16,
+  },
+  linkButton: {
+    alignItems: 'center',
+    padding: 8,
+  },
+  linkText: {
+    color: '#ef4444',
+    fontSize: 14,
+  },
   actionButton: {
     backgroundColor: '#6366f1',
     borderRadius: 8,
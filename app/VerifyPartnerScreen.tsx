@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../contexts/AuthContext';
+import { usePartner } from '../contexts/PartnerContext';
+import { verificationService } from '../services/verification';
+import type { PartnerVerification } from '../types';
+
+export default function VerifyPartnerScreen({ navigation, route }: any) {
+  const { user } = useAuth();
+  const { partner } = usePartner();
+  const fromPairing = Boolean(route?.params?.fromPairing);
+  const [verification, setVerification] = useState<PartnerVerification | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadVerification();
+  }, [user?.id, user?.partnerId]);
+
+  const loadVerification = async () => {
+    if (!user?.partnerId) return;
+
+    setLoading(true);
+    try {
+      setVerification(await verificationService.getVerification(user, user.partnerId));
+    } catch (error: any) {
+      console.error('Error loading safety number:', error);
+      Alert.alert('Error', error.message || 'Failed to load safety number');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const finish = () => {
+    if (fromPairing) {
+      navigation.replace('Home');
+    } else {
+      navigation.goBack();
+    }
+  };
+
+  const handleMarkVerified = async () => {
+    if (!user?.partnerId || !verification) return;
+
+    setSaving(true);
+    try {
+      await verificationService.markVerified(user, user.partnerId, verification.safetyNumber);
+      Alert.alert('Verified', 'Your connection is verified.', [{ text: 'OK', onPress: finish }]);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save verification');
+      loadVerification();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !verification) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  const groups = verification.safetyNumber.split(' ');
+  const rows = [groups.slice(0, 4), groups.slice(4, 8), groups.slice(8, 12)];
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={fromPairing ? ['top', 'bottom'] : ['bottom']}>
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        {fromPairing && <Text style={styles.title}>You're Connected!</Text>}
+
+        {verification.status === 'rotated' && (
+          <View style={styles.noticeBox}>
+            <Text style={styles.noticeTitle}>Your keys were rotated</Text>
+            <Text style={styles.noticeText}>
+              The safety number below includes your new keys, so it no longer matches the one you
+              verified. Compare the new number to keep your notes verified.
+            </Text>
+          </View>
+        )}
+
+        {verification.status === 'changed' && (
+          <View style={styles.warningBox}>
+            <Text style={styles.warningTitle}>Your partner's key has changed</Text>
+            <Text style={styles.warningText}>
+              The safety number below no longer matches the one you verified, and no key rotation
+              explains it. This happens if your partner re-registered, but it can also mean someone
+              is intercepting your notes.
+              Compare the new number in person before sending anything private.
+            </Text>
+          </View>
+        )}
+
+        <Text style={styles.description}>
+          Compare this number with the one on {partner?.email || 'your partner'}'s phone, in
+          person or on a call. If they match, no one can read your notes in between.
+        </Text>
+
+        <View style={styles.numberContainer}>
+          {rows.map((row, index) => (
+            <Text key={index} style={styles.numberRow}>
+              {row.join('  ')}
+            </Text>
+          ))}
+        </View>
+
+        {verification.status === 'verified' ? (
+          <Text style={styles.verifiedText}>
+            ✓ Verified{verification.verifiedAt ? ` on ${verification.verifiedAt.toLocaleDateString()}` : ''}
+          </Text>
+        ) : (
+          <TouchableOpacity
+            style={[styles.button, saving && styles.buttonDisabled]}
+            onPress={handleMarkVerified}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.buttonText}>The Numbers Match</Text>
+            )}
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity style={styles.linkButton} onPress={finish}>
+          <Text style={styles.linkText}>
+            {verification.status === 'verified' ? 'Done' : 'Verify Later'}
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 24,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 16,
+    color: '#333',
+    textAlign: 'center',
+  },
+  description: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 24,
+    textAlign: 'center',
+  },
+  noticeBox: {
+    backgroundColor: '#fffbeb',
+    borderColor: '#f59e0b',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  noticeTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#b45309',
+    marginBottom: 8,
+  },
+  noticeText: {
+    fontSize: 14,
+    color: '#78350f',
+  },
+  warningBox: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#ef4444',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  warningTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#b91c1c',
+    marginBottom: 8,
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#7f1d1d',
+  },
+  numberContainer: {
+    padding: 20,
+    backgroundColor: '#f9fafb',
+    borderRadius: 12,
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  numberRow: {
+    fontSize: 20,
+    fontFamily: 'monospace',
+    letterSpacing: 1,
+    color: '#333',
+    marginVertical: 4,
+  },
+  verifiedText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#16a34a',
+    textAlign: 'center',
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  linkText: {
+    color: '#6366f1',
+    fontSize: 16,
+  },
+});
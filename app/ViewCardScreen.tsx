@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -8,43 +8,57 @@ import {
   TouchableOpacity,
   Alert,
   Platform,
+  Image,
 } from 'react-native';
-import { Audio } from 'expo-av';
 import * as Sharing from 'expo-sharing';
-import * as FileSystem from 'expo-file-system/legacy';
-import { decodeBase64, encodeBase64 } from 'tweetnacl-util';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { encodeBase64 } from 'tweetnacl-util';
 import { useAuth } from '../contexts/AuthContext';
 import { usePartner } from '../contexts/PartnerContext';
 import { cardService } from '../services/cards';
-import { encryptionService } from '../services/encryption';
-import { partnerService } from '../services/partner';
-import type { Card } from '../types';
+import { reactionService, CARD_REACTIONS } from '../services/reactions';
+import { pairKeyService } from '../services/pairKeys';
+import { VoicePlayer } from '../services/voicePlayer';
+import { isDecryptionError, type DecryptionError } from '../services/decryptionError';
+import SketchReplay from '../components/SketchReplay';
+import type { Card, CardReaction, DecryptedCard, SharedSecret } from '../types';
 
 export default function ViewCardScreen({ route, navigation }: any) {
   const { cardId } = route.params;
   const { user } = useAuth();
   const { partner } = usePartner();
   const [card, setCard] = useState<Card | null>(null);
-  const [decryptedContent, setDecryptedContent] = useState<string | null>(null);
+  const [decrypted, setDecrypted] = useState<DecryptedCard | null>(null);
+  const [failure, setFailure] = useState<DecryptionError | null>(null);
   const [loading, setLoading] = useState(true);
-  const [sound, setSound] = useState<Audio.Sound | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  const playerRef = useRef<VoicePlayer | null>(null);
   const [savingImage, setSavingImage] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [reactions, setReactions] = useState<CardReaction[]>([]);
+  const [reacting, setReacting] = useState(false);
+  // The card a reply writes back to: decrypted, or null if it can't be opened anymore
+  const [original, setOriginal] = useState<DecryptedCard | null | undefined>(undefined);
+  const [imageUri, setImageUri] = useState<string | null>(null);
+  const [replayKey, setReplayKey] = useState(0);
+
+  // Load on focus, so an edit made from here shows up on return
+  useEffect(() => {
+    return navigation.addListener('focus', loadCard);
+  }, [navigation, cardId]);
 
   useEffect(() => {
-    loadCard();
     return () => {
-      // Cleanup sound on unmount
-      if (sound) {
-        sound.unloadAsync();
-      }
+      // Stop playback and delete the decrypted temp files on unmount
+      playerRef.current?.stop();
+      playerRef.current = null;
     };
   }, [cardId]);
 
   const loadCard = async () => {
     if (!user?.partnerId || !partner) return;
 
+    setFailure(null);
     try {
       const cardData = await cardService.getCard(cardId);
       if (!cardData) {
@@ -55,20 +69,24 @@ export default function ViewCardScreen({ route, navigation }: any) {
 
       setCard(cardData);
 
-      // Decrypt if text card
-      if (cardData.contentType === 'text') {
-        const partnerPublicKey = await partnerService.getPartnerPublicKey(
-          user.id,
-          user.partnerId
-        );
-        const sharedSecret = await encryptionService.getSharedSecret(
-          user.partnerId,
-          partnerPublicKey
-        );
-        const decrypted = await cardService.decryptCard(cardData, sharedSecret);
-        setDecryptedContent(decrypted);
+      // Decrypt metadata (and text); voice audio is decrypted on play
+      const sharedSecret = await pairKeyService.getCardSecret(user.id, cardData);
+      const decryptedCard = await cardService.decryptCard(cardData, sharedSecret);
+      setDecrypted(decryptedCard);
+      if (decryptedCard.metadata.contentType === 'image') {
+        loadImage(cardData, sharedSecret);
+      }
+      if (decryptedCard.metadata.inReplyTo) {
+        loadOriginal(decryptedCard.metadata.inReplyTo);
       }
+      // A reaction that can't be read shouldn't keep the card from opening
+      setReactions(await reactionService.getReactions(user.id, cardData.pairId, cardData.id).catch(() => []));
     } catch (error: any) {
+      // Keep undecryptable cards on screen so the recovery options can be offered
+      if (isDecryptionError(error)) {
+        setFailure(error);
+        return;
+      }
       Alert.alert('Error', error.message || 'Failed to load card');
       navigation.goBack();
     } finally {
@@ -76,88 +94,162 @@ export default function ViewCardScreen({ route, navigation }: any) {
     }
   };
 
-  const handlePlayVoice = async () => {
-    if (!card?.encryptedContent) return;
-
+  // Show the thumbnail straight away, then swap in the full photo
+  const loadImage = async (cardData: Card, sharedSecret: SharedSecret) => {
     try {
-      if (sound) {
-        await sound.unloadAsync();
+      if (cardData.encryptedThumbnail) {
+        const thumbnail = await cardService.decryptImageCard(cardData, sharedSecret, true);
+        setImageUri(`data:image/jpeg;base64,${encodeBase64(thumbnail)}`);
+      }
+      const photo = await cardService.decryptImageCard(cardData, sharedSecret);
+      setImageUri(`data:image/jpeg;base64,${encodeBase64(photo)}`);
+    } catch (error: any) {
+      if (isDecryptionError(error)) {
+        setFailure(error);
+        return;
       }
+      Alert.alert('Error', 'Failed to open photo');
+    }
+  };
 
-      // Decode encrypted voice data from Firestore (stored as base64 string)
-      const encryptedData = decodeBase64(card.encryptedContent);
+  // Quote the card a reply writes back to
+  const loadOriginal = async (originalId: string) => {
+    try {
+      const originalCard = await cardService.getCard(originalId);
+      if (!originalCard || originalCard.deletedAt) {
+        setOriginal(null);
+        return;
+      }
+      const sharedSecret = await pairKeyService.getCardSecret(user!.id, originalCard);
+      setOriginal(await cardService.decryptCard(originalCard, sharedSecret));
+    } catch (error) {
+      console.error('Error loading the original note:', error);
+      setOriginal(null);
+    }
+  };
 
-      // Extract nonce (first 24 bytes) and encrypted data
-      const nonce = encryptedData.slice(0, 24);
-      const encrypted = encryptedData.slice(24);
+  const handlePlayVoice = async () => {
+    if (!card?.encryptedContent) return;
 
-      // Get shared secret
-      const partnerPublicKey = await partnerService.getPartnerPublicKey(
-        user!.id,
-        user!.partnerId!
-      );
-      const sharedSecret = await encryptionService.getSharedSecret(
-        user!.partnerId!,
-        partnerPublicKey
-      );
+    await playerRef.current?.stop();
+    const player = new VoicePlayer(() => {
+      if (playerRef.current === player) {
+        playerRef.current = null;
+        setIsPlaying(false);
+      }
+    });
+    playerRef.current = player;
 
-      // Decrypt
-      const decrypted = await encryptionService.decryptVoiceFile(
-        encrypted,
-        nonce,
-        sharedSecret
-      );
+    try {
+      // Get shared secret for the epoch the card's content key is wrapped under
+      const sharedSecret = await pairKeyService.getCardSecret(user!.id, card);
 
-      // Write decrypted audio to temporary file for playback
+      // Decrypt chunk by chunk into temp files; playback starts before the last chunk
       // React Native doesn't support Blob/URL.createObjectURL
       // Use the stored audio format or default to .m4a
-      const audioFormat = card.audioFormat || '.m4a';
-      const tempFileUri = `${FileSystem.cacheDirectory}${Date.now()}${audioFormat}`;
-      const base64Decrypted = encodeBase64(decrypted);
-      await FileSystem.writeAsStringAsync(tempFileUri, base64Decrypted, {
-        encoding: FileSystem.EncodingType.Base64,
-      });
-
-      // Play audio from file URI
-      const { sound: newSound } = await Audio.Sound.createAsync(
-        { uri: tempFileUri },
-        { shouldPlay: true }
-      );
-      
-      // Clean up temp file after playback finishes
-      newSound.setOnPlaybackStatusUpdate(async (status: any) => {
-        if (status.didJustFinish) {
-          setIsPlaying(false);
-          try {
-            await FileSystem.deleteAsync(tempFileUri, { idempotent: true });
-          } catch (e) {
-            // Ignore cleanup errors
-          }
-        }
-      });
-
-      setSound(newSound);
       setIsPlaying(true);
-
-      newSound.setOnPlaybackStatusUpdate((status: any) => {
-        if (status.didJustFinish) {
-          setIsPlaying(false);
-        }
-      });
+      await player.play(
+        cardService.decryptVoiceCardChunks(card, sharedSecret),
+        decrypted?.metadata.audioFormat || '.m4a'
+      );
     } catch (error: any) {
+      await player.stop();
+      if (playerRef.current === player) {
+        playerRef.current = null;
+        setIsPlaying(false);
+      }
+      if (isDecryptionError(error)) {
+        setFailure(error);
+        return;
+      }
       Alert.alert('Error', 'Failed to play voice message');
     }
   };
 
   const handleStopVoice = async () => {
-    if (sound) {
-      await sound.stopAsync();
-      setIsPlaying(false);
+    const player = playerRef.current;
+    playerRef.current = null;
+    setIsPlaying(false);
+    await player?.stop();
+  };
+
+  const handleMarkUnrecoverable = () => {
+    if (!card) return;
+
+    Alert.alert(
+      'Mark as Unrecoverable',
+      'This note will be taken out of your deck. If the missing key turns up later, it can still be opened from the database.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Mark Unrecoverable',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await cardService.markUnrecoverable(card.id);
+              navigation.goBack();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to update card');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Tapping the current reaction takes it back
+  const handleReact = async (reaction: string) => {
+    if (!card || !user) return;
+
+    setReacting(true);
+    try {
+      const current = reactions.find((r) => r.userId === user.id);
+      if (current?.reaction === reaction) {
+        await reactionService.removeReaction(card.id, user.id);
+        setReactions(reactions.filter((r) => r.userId !== user.id));
+      } else {
+        await reactionService.setReaction(card, user.id, reaction);
+        setReactions([
+          ...reactions.filter((r) => r.userId !== user.id),
+          { userId: user.id, reaction, reactedAt: new Date() },
+        ]);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save reaction');
+    } finally {
+      setReacting(false);
     }
   };
 
+  const handleDelete = () => {
+    if (!card || !user) return;
+
+    Alert.alert(
+      'Delete Note',
+      'This note will be permanently deleted. Your partner won\'t be able to read it, even if they already drew it.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setDeleting(true);
+            try {
+              await cardService.deleteCard(card, user.id);
+              navigation.goBack();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to delete note');
+            } finally {
+              setDeleting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleSaveAsImage = async () => {
-    if (!card || !decryptedContent) {
+    if (!card || !decrypted) {
       Alert.alert('Error', 'Card content not available');
       return;
     }
@@ -165,12 +257,17 @@ export default function ViewCardScreen({ route, navigation }: any) {
     setSavingImage(true);
     try {
       // Create a text representation of the card
-      const cardText = card.contentType === 'text'
-        ? decryptedContent
-        : 'Voice Message Card';
+      const { metadata } = decrypted;
+      const cardText = metadata.contentType === 'text'
+        ? decrypted.text
+        : metadata.contentType === 'image'
+          ? metadata.caption || 'Photo Card'
+          : metadata.contentType === 'sketch'
+            ? 'Sketch Card'
+            : 'Voice Message Card';
       
       const date = new Date(card.createdAt).toLocaleDateString();
-      const shareText = `LoveNotes Card\n\n${cardText}\n\nDate: ${date}${card.templateUsed ? `\nTemplate: ${card.templateUsed}` : ''}`;
+      const shareText = `LoveNotes Card\n\n${cardText}\n\nDate: ${date}${metadata.templateId ? `\nTemplate: ${metadata.templateId}` : ''}`;
 
       // Share the card content
       if (await Sharing.isAvailableAsync()) {
@@ -197,19 +294,102 @@ export default function ViewCardScreen({ route, navigation }: any) {
     );
   }
 
-  if (!card) {
+  if (card && failure) {
+    return (
+      <SafeAreaView style={styles.safeArea} edges={['top']}>
+        <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+          <View style={styles.card}>
+            <Text style={styles.failureTitle}>{getFailureTitle(failure)}</Text>
+            <Text style={styles.failureText}>{getFailureDescription(failure)}</Text>
+            {card.unrecoverable && (
+              <Text style={styles.failureText}>You marked this note as unrecoverable.</Text>
+            )}
+          </View>
+
+          {failure.mismatch?.ownKeyChanged && (
+            <TouchableOpacity style={styles.saveButton} onPress={() => navigation.navigate('Settings')}>
+              <Text style={styles.saveButtonText}>Recover Old Key</Text>
+            </TouchableOpacity>
+          )}
+          {failure.reason !== 'destroyed' && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={loadCard}>
+              <Text style={styles.secondaryButtonText}>Try Again</Text>
+            </TouchableOpacity>
+          )}
+          {failure.reason !== 'destroyed' && !card.unrecoverable && card.creatorId !== user?.id && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleMarkUnrecoverable}>
+              <Text style={styles.dangerText}>Mark as Unrecoverable</Text>
+            </TouchableOpacity>
+          )}
+          {card.creatorId === user?.id && !card.deletedAt && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleDelete} disabled={deleting}>
+              <Text style={styles.dangerText}>Delete Note</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  if (!card || !decrypted) {
     return null;
   }
 
+  const { durationMs } = decrypted.metadata;
+  const isCreator = card.creatorId === user?.id;
+  const ownReaction = reactions.find((r) => r.userId === user?.id)?.reaction;
+  const partnerReaction = reactions.find((r) => r.userId !== user?.id)?.reaction;
+  const canEdit = decrypted.metadata.contentType === 'text' && cardService.canEdit(card, user!.id);
+
   return (
     <SafeAreaView style={styles.safeArea} edges={['top']}>
       <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        {decrypted.metadata.inReplyTo && original !== undefined && (
+          <View style={styles.quote}>
+            <Text style={styles.quoteLabel}>
+              {isCreator ? 'Your reply to their note' : 'Written back to your note'}
+              {original ? ` from ${original.createdAt.toLocaleDateString()}` : ''}
+            </Text>
+            <Text style={styles.quoteText} numberOfLines={4}>
+              {!original
+                ? 'That note has been deleted or can no longer be opened.'
+                : original.metadata.contentType === 'text'
+                  ? original.text
+                  : original.metadata.contentType === 'image'
+                    ? `Photo${original.metadata.caption ? `: ${original.metadata.caption}` : ''}`
+                    : original.metadata.contentType === 'sketch'
+                      ? 'Sketch'
+                      : 'Voice Message'}
+            </Text>
+          </View>
+        )}
+
         <View style={styles.card}>
-        {card.contentType === 'text' ? (
-          <Text style={styles.cardText}>{decryptedContent || 'Loading...'}</Text>
+        {decrypted.metadata.contentType === 'text' ? (
+          <Text style={styles.cardText}>{decrypted.text}</Text>
+        ) : decrypted.metadata.contentType === 'image' ? (
+          <View>
+            {imageUri ? (
+              <Image source={{ uri: imageUri }} style={styles.photo} resizeMode="contain" />
+            ) : (
+              <ActivityIndicator color="#6366f1" />
+            )}
+            {decrypted.metadata.caption && (
+              <Text style={styles.caption}>{decrypted.metadata.caption}</Text>
+            )}
+          </View>
+        ) : decrypted.metadata.contentType === 'sketch' && decrypted.sketch ? (
+          <View>
+            <SketchReplay sketch={decrypted.sketch} replayKey={replayKey} />
+            <TouchableOpacity style={styles.replayButton} onPress={() => setReplayKey((key) => key + 1)}>
+              <Text style={styles.replayButtonText}>↻ Replay</Text>
+            </TouchableOpacity>
+          </View>
         ) : (
           <View style={styles.voiceCard}>
-            <Text style={styles.voiceLabel}>Voice Message</Text>
+            <Text style={styles.voiceLabel}>
+              Voice Message{durationMs ? ` · ${Math.round(durationMs / 1000)}s` : ''}
+            </Text>
             {isPlaying ? (
               <TouchableOpacity
                 style={styles.playButton}
@@ -230,9 +410,29 @@ export default function ViewCardScreen({ route, navigation }: any) {
 
         <Text style={styles.dateLabel}>
           {new Date(card.createdAt).toLocaleDateString()}
+          {card.editedAt ? ' · edited' : ''}
         </Text>
         </View>
 
+      {isCreator ? (
+        partnerReaction && (
+          <Text style={styles.reactionSummary}>Your partner reacted {partnerReaction}</Text>
+        )
+      ) : (
+        <View style={styles.reactionRow}>
+          {CARD_REACTIONS.map((reaction) => (
+            <TouchableOpacity
+              key={reaction}
+              style={[styles.reactionButton, ownReaction === reaction && styles.reactionButtonActive]}
+              onPress={() => handleReact(reaction)}
+              disabled={reacting}
+            >
+              <Text style={styles.reactionText}>{reaction}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
       <TouchableOpacity
         style={[styles.saveButton, savingImage && styles.saveButtonDisabled]}
         onPress={handleSaveAsImage}
@@ -244,11 +444,67 @@ export default function ViewCardScreen({ route, navigation }: any) {
           <Text style={styles.saveButtonText}>Share Card</Text>
         )}
       </TouchableOpacity>
+
+      {!isCreator && (
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => navigation.navigate('CreateCard', { inReplyTo: card.id })}
+        >
+          <Text style={styles.secondaryButtonText}>↩ Write Back</Text>
+        </TouchableOpacity>
+      )}
+      {canEdit && (
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => navigation.navigate('CreateCard', { cardId: card.id })}
+        >
+          <Text style={styles.secondaryButtonText}>Edit Note</Text>
+        </TouchableOpacity>
+      )}
+      {isCreator && (
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleDelete} disabled={deleting}>
+          {deleting ? (
+            <ActivityIndicator color="#ef4444" />
+          ) : (
+            <Text style={styles.dangerText}>Delete Note</Text>
+          )}
+        </TouchableOpacity>
+      )}
       </ScrollView>
     </SafeAreaView>
   );
 }
 
+function getFailureTitle(failure: DecryptionError): string {
+  switch (failure.reason) {
+    case 'key-changed':
+      return failure.mismatch?.ownKeyChanged
+        ? 'Written to your old key'
+        : 'Written with your partner\'s old key';
+    case 'corrupted':
+      return 'This note is damaged';
+    case 'destroyed':
+      return 'This note was deleted';
+    default:
+      return 'This note can\'t be opened';
+  }
+}
+
+function getFailureDescription(failure: DecryptionError): string {
+  switch (failure.reason) {
+    case 'key-changed':
+      return failure.mismatch?.ownKeyChanged
+        ? 'Your encryption key changed after this note was written. If you backed up your old key, recover it in Settings to open this note.'
+        : 'Your partner\'s encryption key changed after this note was written. If they still have a backup of their old key, they can recover it in Settings → Key Backup, and this note will open again.';
+    case 'corrupted':
+      return 'The note\'s keys are fine, but its contents were damaged and can\'t be decrypted.';
+    case 'destroyed':
+      return 'Its creator deleted it or permanently removed the key needed to read it.';
+    default:
+      return 'It was encrypted with keys that don\'t match the ones on this device, most likely because you or your partner re-registered. A backup of the older key, recovered in Settings → Key Backup, will open it again.';
+  }
+}
+
 const styles = StyleSheet.create({
   safeArea: {
     flex: 1,
@@ -311,6 +567,77 @@ const styles = StyleSheet.create({
     marginTop: 8,
     textAlign: 'center',
   },
+  photo: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 8,
+  },
+  caption: {
+    fontSize: 16,
+    lineHeight: 24,
+    color: '#333',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  replayButton: {
+    alignSelf: 'center',
+    marginTop: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  replayButtonText: {
+    color: '#6366f1',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  quote: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#6366f1',
+    backgroundColor: '#f9fafb',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+  },
+  quoteLabel: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 6,
+  },
+  quoteText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  reactionRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  reactionButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#f5f5f5',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  reactionButtonActive: {
+    borderColor: '#6366f1',
+    backgroundColor: '#eef2ff',
+  },
+  reactionText: {
+    fontSize: 24,
+  },
+  reactionSummary: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
   saveButton: {
     backgroundColor: '#6366f1',
     borderRadius: 8,
@@ -326,5 +653,31 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  failureTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  failureText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  secondaryButton: {
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    color: '#6366f1',
+    fontSize: 16,
+  },
+  dangerText: {
+    color: '#ef4444',
+    fontSize: 16,
+  },
 });
 
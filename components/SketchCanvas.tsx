@@ -0,0 +1,131 @@
+import React, { useRef, useState } from 'react';
+import { View, StyleSheet, PanResponder, GestureResponderEvent, LayoutChangeEvent } from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+import {
+  SKETCH_CANVAS_SIZE,
+  SKETCH_COLORS,
+  strokeToPath,
+} from '../services/sketch';
+import type { Sketch, SketchStroke } from '../types';
+
+// Skip touch points closer than this to the previous one, in canvas units
+const MIN_POINT_DISTANCE = 3;
+
+interface SketchCanvasProps {
+  sketch: Sketch;
+  onChange: (sketch: Sketch) => void;
+  color: number; // Index into SKETCH_COLORS
+  width: number;
+  disabled?: boolean;
+  onDrawingChange?: (drawing: boolean) => void; // e.g. to stop a parent ScrollView scrolling mid-stroke
+}
+
+/**
+ * Square canvas the creator draws a sketch card on with their finger
+ * Touches are scaled to the sketch's fixed coordinate space, so sketches look
+ * the same on any screen size.
+ */
+export default function SketchCanvas({
+  sketch,
+  onChange,
+  color,
+  width,
+  disabled,
+  onDrawingChange,
+}: SketchCanvasProps) {
+  const [activeStroke, setActiveStroke] = useState<SketchStroke | null>(null);
+  const sizeRef = useRef(1);
+  const activeStrokeRef = useRef<SketchStroke | null>(null);
+
+  // The responder is created once, so it reads the latest props through a ref
+  const propsRef = useRef({ sketch, onChange, color, width, disabled, onDrawingChange });
+  propsRef.current = { sketch, onChange, color, width, disabled, onDrawingChange };
+
+  const toCanvasPoint = (event: GestureResponderEvent): [number, number] => {
+    const scale = SKETCH_CANVAS_SIZE / sizeRef.current;
+    return [
+      Math.round(event.nativeEvent.locationX * scale),
+      Math.round(event.nativeEvent.locationY * scale),
+    ];
+  };
+
+  const finishStroke = () => {
+    const stroke = activeStrokeRef.current;
+    activeStrokeRef.current = null;
+    setActiveStroke(null);
+    propsRef.current.onDrawingChange?.(false);
+    if (stroke) {
+      const { sketch: current, onChange: notify } = propsRef.current;
+      notify({ strokes: [...current.strokes, stroke] });
+    }
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => !propsRef.current.disabled,
+      onMoveShouldSetPanResponder: () => !propsRef.current.disabled,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => {
+        const { color: strokeColor, width: strokeWidth } = propsRef.current;
+        activeStrokeRef.current = { color: strokeColor, width: strokeWidth, points: toCanvasPoint(event) };
+        setActiveStroke(activeStrokeRef.current);
+        propsRef.current.onDrawingChange?.(true);
+      },
+      onPanResponderMove: (event) => {
+        const stroke = activeStrokeRef.current;
+        if (!stroke) return;
+
+        const [x, y] = toCanvasPoint(event);
+        const lastX = stroke.points[stroke.points.length - 2];
+        const lastY = stroke.points[stroke.points.length - 1];
+        if (Math.hypot(x - lastX, y - lastY) < MIN_POINT_DISTANCE) return;
+
+        activeStrokeRef.current = { ...stroke, points: [...stroke.points, x, y] };
+        setActiveStroke(activeStrokeRef.current);
+      },
+      onPanResponderRelease: finishStroke,
+      onPanResponderTerminate: finishStroke,
+    })
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    sizeRef.current = event.nativeEvent.layout.width || 1;
+  };
+
+  const strokes = activeStroke ? [...sketch.strokes, activeStroke] : sketch.strokes;
+
+  return (
+    <View style={styles.canvas} onLayout={handleLayout} {...panResponder.panHandlers}>
+      <Svg
+        width="100%"
+        height="100%"
+        viewBox={`0 0 ${SKETCH_CANVAS_SIZE} ${SKETCH_CANVAS_SIZE}`}
+        pointerEvents="none"
+      >
+        {strokes.map((stroke, index) => (
+          <Path
+            key={index}
+            d={strokeToPath(stroke)}
+            stroke={SKETCH_COLORS[stroke.color] ?? SKETCH_COLORS[0]}
+            strokeWidth={stroke.width}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            fill="none"
+          />
+        ))}
+      </Svg>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  canvas: {
+    width: '100%',
+    aspectRatio: 1,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    overflow: 'hidden',
+  },
+});
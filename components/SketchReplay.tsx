@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+import {
+  SKETCH_CANVAS_SIZE,
+  SKETCH_COLORS,
+  countSketchPoints,
+  strokeToPath,
+} from '../services/sketch';
+import type { Sketch } from '../types';
+
+// Replay speed: a fixed time per point, kept between a short and a long reveal
+const MS_PER_POINT = 8;
+const MIN_REPLAY_MS = 1500;
+const MAX_REPLAY_MS = 6000;
+
+interface SketchReplayProps {
+  sketch: Sketch;
+  replayKey?: number; // Change to play the reveal again
+}
+
+/**
+ * Reveal a sketch card the way it was drawn, stroke by stroke
+ */
+export default function SketchReplay({ sketch, replayKey }: SketchReplayProps) {
+  const totalPoints = countSketchPoints(sketch);
+  const [revealedPoints, setRevealedPoints] = useState(0);
+
+  useEffect(() => {
+    const duration = Math.min(MAX_REPLAY_MS, Math.max(MIN_REPLAY_MS, totalPoints * MS_PER_POINT));
+    const start = Date.now();
+    let frame = 0;
+
+    const step = () => {
+      const progress = Math.min(1, (Date.now() - start) / duration);
+      setRevealedPoints(Math.ceil(progress * totalPoints));
+      if (progress < 1) {
+        frame = requestAnimationFrame(step);
+      }
+    };
+    setRevealedPoints(0);
+    frame = requestAnimationFrame(step);
+
+    return () => cancelAnimationFrame(frame);
+  }, [sketch, replayKey]);
+
+  // Strokes are revealed in the order they were drawn
+  let remaining = revealedPoints;
+  const visible = sketch.strokes.map((stroke) => {
+    const shown = Math.min(stroke.points.length / 2, remaining);
+    remaining -= shown;
+    return { stroke, shown };
+  });
+
+  return (
+    <View style={styles.canvas}>
+      <Svg width="100%" height="100%" viewBox={`0 0 ${SKETCH_CANVAS_SIZE} ${SKETCH_CANVAS_SIZE}`}>
+        {visible.map(({ stroke, shown }, index) =>
+          shown > 0 ? (
+            <Path
+              key={index}
+              d={strokeToPath(stroke, shown)}
+              stroke={SKETCH_COLORS[stroke.color] ?? SKETCH_COLORS[0]}
+              strokeWidth={stroke.width}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              fill="none"
+            />
+          ) : null
+        )}
+      </Svg>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  canvas: {
+    width: '100%',
+    aspectRatio: 1,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+  },
+});
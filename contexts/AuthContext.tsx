@@ -7,11 +7,14 @@ import type { User } from '../types';
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  privateKeyMissing: boolean;
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, displayName?: string) => Promise<void>;
   logout: () => Promise<void>;
   resetPassword: (email: string) => Promise<void>;
   refreshUser: () => Promise<void>;
+  restorePrivateKey: (passphrase: string) => Promise<void>;
+  refreshPrivateKey: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -23,6 +26,13 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
+  const [privateKeyMissing, setPrivateKeyMissing] = useState<boolean>(false);
+
+  // Set user and check whether this device still holds their private key
+  const applyUser = async (userData: User | null): Promise<void> => {
+    setPrivateKeyMissing(userData ? !(await authService.hasPrivateKey()) : false);
+    setUser(userData);
+  };
 
   // Load cached user on mount
   useEffect(() => {
@@ -30,7 +40,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       try {
         const cachedUser = await authService.getCachedUser();
         if (cachedUser) {
-          setUser(cachedUser);
+          await applyUser(cachedUser);
         }
       } catch (error) {
         console.error('Error loading cached user:', error);
@@ -48,7 +58,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       if (firebaseUser) {
         try {
           const userData = await authService.getCurrentUser();
-          setUser(userData);
+          await applyUser(userData);
         } catch (error) {
           console.error('Error loading user data:', error);
           setUser(null);
@@ -66,7 +76,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setLoading(true);
     try {
       const userData = await authService.login(email, password);
-      setUser(userData);
+      await applyUser(userData);
     } catch (error: any) {
       setLoading(false);
       throw error;
@@ -82,7 +92,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setLoading(true);
     try {
       const userData = await authService.register(email, password, displayName);
-      setUser(userData);
+      await applyUser(userData);
     } catch (error: any) {
       setLoading(false);
       throw error;
@@ -94,7 +104,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setLoading(true);
     try {
       await authService.logout();
-      setUser(null);
+      await applyUser(null);
     } catch (error: any) {
       setLoading(false);
       throw error;
@@ -116,14 +126,31 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const restorePrivateKey = async (passphrase: string): Promise<void> => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    await authService.restorePrivateKey(user, passphrase);
+    setPrivateKeyMissing(false);
+  };
+
+  // Re-check for the private key after it was delivered outside this context (device linking)
+  const refreshPrivateKey = async (): Promise<void> => {
+    setPrivateKeyMissing(!(await authService.hasPrivateKey()));
+  };
+
   const value: AuthContextType = {
     user,
     loading,
+    privateKeyMissing,
     login,
     register,
     logout,
     resetPassword,
     refreshUser,
+    restorePrivateKey,
+    refreshPrivateKey,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -2,6 +2,7 @@ import React, { createContext, useContext, useEffect, useState, useCallback, use
 import { doc, onSnapshot, getDoc } from 'firebase/firestore';
 import { db } from '../services/firebase';
 import { partnerService } from '../services/partner';
+import { handshakeService } from '../services/handshake';
 import { useAuth } from './AuthContext';
 import type { User, ConnectionStatus } from '../types';
 
@@ -9,6 +10,7 @@ interface PartnerContextType {
   partner: User | null;
   connectionStatus: ConnectionStatus;
   loading: boolean;
+  handshakeError: string | null;
   generateInviteCode: () => Promise<string>;
   acceptInviteCode: (code: string) => Promise<void>;
   breakup: () => Promise<void>;
@@ -26,6 +28,8 @@ export const PartnerProvider: React.FC<PartnerProviderProps> = ({ children }) =>
   const [partner, setPartner] = useState<User | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('unpaired');
   const [loading, setLoading] = useState<boolean>(true);
+  const [pendingPairId, setPendingPairId] = useState<string | null>(null);
+  const [handshakeError, setHandshakeError] = useState<string | null>(null);
   const loadingRef = useRef(false);
   const currentPartnerIdRef = useRef<string | null>(null);
 
@@ -125,6 +129,9 @@ export const PartnerProvider: React.FC<PartnerProviderProps> = ({ children }) =>
         return prevStatus;
       });
 
+      // Drive the key confirmation handshake while the pair is pending
+      setPendingPairId(newPartnerId && newConnectionStatus === 'pending' ? newPartnerId : null);
+
       // Load partner if connected and has partnerId
       if (newPartnerId && newConnectionStatus === 'connected') {
         // Only load if partnerId changed and we're not already loading
@@ -145,6 +152,37 @@ export const PartnerProvider: React.FC<PartnerProviderProps> = ({ children }) =>
     };
   }, [user?.id]);
 
+  // Take each handshake step as the partner's confirmation arrives on the pair document
+  useEffect(() => {
+    if (!user || !pendingPairId) {
+      setHandshakeError(null);
+      return;
+    }
+
+    let isSubscribed = true;
+
+    const unsubscribe = onSnapshot(doc(db, 'pairs', pendingPairId), (pairSnapshot) => {
+      if (!isSubscribed || !pairSnapshot.exists()) {
+        return;
+      }
+
+      handshakeService
+        .advanceHandshake(user, pendingPairId)
+        .then(() => setHandshakeError(null))
+        .catch((error: any) => {
+          console.error('Error confirming keys with partner:', error);
+          if (isSubscribed) {
+            setHandshakeError(error.message || 'Key confirmation failed');
+          }
+        });
+    });
+
+    return () => {
+      isSubscribed = false;
+      unsubscribe();
+    };
+  }, [user?.id, pendingPairId]);
+
   const generateInviteCode = async (): Promise<string> => {
     if (!user) {
       throw new Error('User not authenticated');
@@ -222,6 +260,7 @@ export const PartnerProvider: React.FC<PartnerProviderProps> = ({ children }) =>
     partner,
     connectionStatus,
     loading,
+    handshakeError,
     generateInviteCode,
     acceptInviteCode,
     breakup,
@@ -0,0 +1,107 @@
+/**
+ * Draw Strategies
+ * How the drawCard function picks a card from a user's unread deck. Each pair
+ * chooses one (`pairs/{pairId}.drawStrategy`); pairs that haven't get uniform.
+ * Strategies take the random source as an argument, so a seeded generator
+ * makes every selection reproducible in tests.
+ */
+
+export type DrawStrategyName =
+  | "uniform" // Any unread card, equally likely
+  | "oldest-first"
+  | "newest-first"
+  | "least-recently-drawn"; // Cards never drawn first, then the ones drawn longest ago
+
+export const DEFAULT_DRAW_STRATEGY: DrawStrategyName = "uniform";
+
+export interface DrawCandidate {
+  id: string;
+  createdAt: number; // Milliseconds since the epoch
+  lastDrawnAt: number | null; // Last time the card was drawn in any cycle; null if never
+  unlockAt: number | null; // Time capsules only; candidates are always already unlocked
+  drawNextOnUnlock: boolean;
+}
+
+export type RandomSource = () => number; // Uniform in [0, 1), like Math.random
+
+export interface DrawStrategy {
+  select(candidates: DrawCandidate[], random: RandomSource): DrawCandidate;
+}
+
+const uniform: DrawStrategy = {
+  select(candidates, random) {
+    if (candidates.length === 0) {
+      throw new Error("Cannot draw from an empty deck");
+    }
+    return candidates[Math.floor(random() * candidates.length)];
+  },
+};
+
+/**
+ * Pick uniformly among the candidates that share the lowest score
+ */
+function lowestScore(
+  candidates: DrawCandidate[],
+  score: (candidate: DrawCandidate) => number,
+  random: RandomSource
+): DrawCandidate {
+  const best = Math.min(...candidates.map(score));
+  return uniform.select(candidates.filter((candidate) => score(candidate) === best), random);
+}
+
+export const DRAW_STRATEGIES: Record<DrawStrategyName, DrawStrategy> = {
+  "uniform": uniform,
+  "oldest-first": {
+    select: (candidates, random) => lowestScore(candidates, (card) => card.createdAt, random),
+  },
+  "newest-first": {
+    select: (candidates, random) => lowestScore(candidates, (card) => -card.createdAt, random),
+  },
+  "least-recently-drawn": {
+    select: (candidates, random) =>
+      lowestScore(candidates, (card) => card.lastDrawnAt ?? -Infinity, random),
+  },
+};
+
+/**
+ * Pick the next card: unlocked time capsules marked to be drawn next come first,
+ * earliest unlock first, and otherwise the pair's strategy decides. Only a capsule's
+ * first draw jumps the queue; in later cycles it's an ordinary card.
+ */
+export function selectNextCard(
+  strategy: DrawStrategy,
+  candidates: DrawCandidate[],
+  random: RandomSource
+): DrawCandidate {
+  const capsules = candidates.filter(
+    (candidate) => candidate.drawNextOnUnlock && candidate.lastDrawnAt === null
+  );
+  if (capsules.length > 0) {
+    return lowestScore(capsules, (card) => card.unlockAt ?? 0, random);
+  }
+  return strategy.select(candidates, random);
+}
+
+/**
+ * Look up a pair's strategy, falling back to uniform for missing or unknown names
+ */
+export function getDrawStrategy(name: unknown): DrawStrategy {
+  // Own keys only: `in` would also accept inherited names like "toString"
+  return typeof name === "string" && Object.prototype.hasOwnProperty.call(DRAW_STRATEGIES, name) ?
+    DRAW_STRATEGIES[name as DrawStrategyName] :
+    DRAW_STRATEGIES[DEFAULT_DRAW_STRATEGY];
+}
+
+/**
+ * Seeded random source (mulberry32) for reproducible draws in tests
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -1,10 +1,314 @@
 import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  getDrawStrategy,
+  selectNextCard,
+  type DrawCandidate,
+  type RandomSource,
+} from "./drawStrategies";
 
-// Cloud Functions will be added here in future phases
-// For now, this is a placeholder
+admin.initializeApp();
 
-export const helloWorld = functions.https.onRequest((request, response) => {
-  functions.logger.info("Hello logs!", {structuredData: true});
-  response.send("Hello from Firebase!");
+const CARDS_COLLECTION = "cards";
+const USERS_COLLECTION = "users";
+const PAIRS_COLLECTION = "pairs";
+const DRAW_HISTORY_COLLECTION = "drawHistory";
+const DRAW_STATE_SUBCOLLECTION = "drawState";
+const CYCLES_SUBCOLLECTION = "cycles";
+const REACTIONS_SUBCOLLECTION = "reactions";
+const COOLDOWN_MINUTES = 15;
+// Writes per batch when resetting a deck; Firestore allows at most 500
+const RESET_BATCH_SIZE = 400;
+// The card fields a draw routes on; payloads (up to ~1 MB per card) are never read
+const DECK_FIELDS = [
+  "creatorId",
+  "recipientId",
+  "isRead",
+  "unrecoverable",
+  "deletedAt",
+  "unlockAt",
+  "drawNextOnUnlock",
+  "createdAt",
+  "lastDrawnAt",
+];
+
+export type DrawCardResponse =
+  | {status: "drawn"; cardId: string}
+  | {status: "already-drawn"; cardId?: string} // Another draw committed while this one ran
+  | {status: "empty"}; // The partner hasn't written any cards yet
+
+type CardSnapshot = admin.firestore.QueryDocumentSnapshot;
+
+/**
+ * Cards in a user's deck: written by their partner, for them, still readable and
+ * not deleted by their creator.
+ * Cards written before recipients were recorded belong to whoever didn't write them.
+ */
+function isInDeck(card: CardSnapshot, userId: string): boolean {
+  return card.get("creatorId") !== userId &&
+    (card.get("recipientId") ?? userId) === userId &&
+    !card.get("unrecoverable") &&
+    !card.get("deletedAt");
+}
+
+/**
+ * Time capsules can't be drawn until their unlock time
+ */
+function isUnlocked(card: CardSnapshot, now: admin.firestore.Timestamp): boolean {
+  const unlockAt: admin.firestore.Timestamp | undefined = card.get("unlockAt");
+  return !unlockAt || unlockAt.toMillis() <= now.toMillis();
+}
+
+/**
+ * Unread cards in a user's deck that have unlocked, with only their routing fields
+ */
+async function getUnreadDeck(
+  db: admin.firestore.Firestore,
+  userId: string,
+  pairId: string,
+  transaction: admin.firestore.Transaction
+): Promise<CardSnapshot[]> {
+  const unread = await transaction.get(db.collection(CARDS_COLLECTION)
+    .where("pairId", "==", pairId)
+    .where("recipientId", "==", userId)
+    .where("isRead", "==", false)
+    .select(...DECK_FIELDS));
+  const now = admin.firestore.Timestamp.now();
+  return unread.docs.filter((card) => isInDeck(card, userId) && isUnlocked(card, now));
+}
+
+/**
+ * Apply an update to many documents in write batches, so any deck size works
+ */
+async function updateInBatches(
+  db: admin.firestore.Firestore,
+  docs: admin.firestore.QueryDocumentSnapshot[],
+  update: (doc: admin.firestore.QueryDocumentSnapshot) => admin.firestore.UpdateData<admin.firestore.DocumentData>
+): Promise<void> {
+  for (let start = 0; start < docs.length; start += RESET_BATCH_SIZE) {
+    const batch = db.batch();
+    for (const doc of docs.slice(start, start + RESET_BATCH_SIZE)) {
+      batch.update(doc.ref, update(doc));
+    }
+    await batch.commit();
+  }
+}
+
+/**
+ * Refill a user's deck once the draw finds nothing unread
+ * Cards written before recipients were recorded are invisible to the draw's
+ * query; if any of those are still unread, they are given their recipient and
+ * no cycle is counted. Otherwise every card goes back in, in write batches, and
+ * the cycle that just ended is recorded once they have all committed - only if
+ * the user's cycle counter still reads `completedCycles`, so two draws racing
+ * here record it once.
+ * Returns false if the user has no cards to draw, even after a reset.
+ */
+export async function startNextCycle(
+  db: admin.firestore.Firestore,
+  userId: string,
+  pairId: string,
+  completedCycles: number
+): Promise<boolean> {
+  const allCards = await db.collection(CARDS_COLLECTION)
+    .where("pairId", "==", pairId)
+    .select(...DECK_FIELDS)
+    .get();
+  const deck = allCards.docs.filter((card) => isInDeck(card, userId));
+  const now = admin.firestore.Timestamp.now();
+  if (!deck.some((card) => isUnlocked(card, now))) {
+    return false; // Nothing to draw yet, even after a reset
+  }
+
+  const legacy = deck.filter((card) => !card.get("recipientId"));
+  if (deck.some((card) => card.get("isRead") !== true && isUnlocked(card, now))) {
+    await updateInBatches(db, legacy, () => ({recipientId: userId}));
+    return true;
+  }
+
+  await updateInBatches(db, deck, (card) => ({
+    isRead: false,
+    ...(card.get("recipientId") ? {} : {recipientId: userId}),
+  }));
+
+  const historyDoc = db.collection(DRAW_HISTORY_COLLECTION).doc(pairId);
+  const stateRef = historyDoc.collection(DRAW_STATE_SUBCOLLECTION).doc(userId);
+  await db.runTransaction(async (transaction) => {
+    const state = await transaction.get(stateRef);
+    if ((state.get("cycle") ?? 0) !== completedCycles) {
+      return; // A concurrent draw already recorded this cycle
+    }
+
+    const cycle = completedCycles + 1;
+    transaction.set(historyDoc.collection(CYCLES_SUBCOLLECTION).doc(), {
+      userId,
+      cycle,
+      startedAt: state.get("cycleStartedAt") ?? null, // Unknown for cycles begun before cycles were tracked
+      endedAt: admin.firestore.FieldValue.serverTimestamp(),
+      cardsDrawn: state.get("cycleDrawCount") ?? deck.length,
+    });
+    transaction.set(stateRef, {
+      cycle,
+      cycleStartedAt: admin.firestore.FieldValue.serverTimestamp(),
+      cycleDrawCount: 0,
+    }, {merge: true});
+    transaction.update(db.collection(PAIRS_COLLECTION).doc(pairId), {
+      [`deckCycles.${userId}`]: cycle,
+    });
+  });
+  return true;
+}
+
+/**
+ * What a draw strategy needs to know about a card
+ */
+function toCandidate(card: CardSnapshot): DrawCandidate {
+  const lastDrawnAt: admin.firestore.Timestamp | undefined = card.get("lastDrawnAt");
+  const unlockAt: admin.firestore.Timestamp | undefined = card.get("unlockAt");
+  return {
+    id: card.id,
+    createdAt: (card.get("createdAt") as admin.firestore.Timestamp | undefined)?.toMillis() ?? 0,
+    lastDrawnAt: lastDrawnAt ? lastDrawnAt.toMillis() : null,
+    unlockAt: unlockAt ? unlockAt.toMillis() : null,
+    drawNextOnUnlock: card.get("drawNextOnUnlock") === true,
+  };
+}
+
+// A draw that found the deck exhausted, with the cycle count it saw
+type DrawAttempt = DrawCardResponse | {status: "exhausted"; completedCycles: number};
+
+/**
+ * Draw a card for a user in one transaction, timing the cooldown with server time.
+ * Checks the cooldown, picks a card with the pair's draw strategy, marks it read
+ * and writes draw history. If the deck is exhausted, the next cycle is started
+ * outside the transaction and the draw is tried once more. Exported separately
+ * from the callable so it can be run directly against the Firestore emulator,
+ * with a seeded random source for repeatable picks.
+ */
+export async function drawCardForUser(
+  db: admin.firestore.Firestore,
+  userId: string,
+  pairId: string,
+  random: RandomSource = Math.random
+): Promise<DrawCardResponse> {
+  const userDoc = await db.collection(USERS_COLLECTION).doc(userId).get();
+  if (userDoc.get("partnerId") !== pairId) {
+    throw new functions.https.HttpsError("permission-denied", "You are not part of this pair");
+  }
+
+  const historyDoc = db.collection(DRAW_HISTORY_COLLECTION).doc(pairId);
+  const stateRef = historyDoc.collection(DRAW_STATE_SUBCOLLECTION).doc(userId);
+  const drawRef = historyDoc.collection("draws").doc();
+  const requestedAt = admin.firestore.Timestamp.now();
+
+  const attemptDraw = () => db.runTransaction(async (transaction): Promise<DrawAttempt> => {
+    // Last draw from the draw state, or from history for users who last drew before it existed
+    const state = await transaction.get(stateRef);
+    let lastDrawnAt: admin.firestore.Timestamp | undefined = state.get("lastDrawnAt");
+    if (!state.exists) {
+      const lastDraw = await transaction.get(
+        historyDoc.collection("draws")
+          .where("viewedBy", "==", userId)
+          .orderBy("drawnAt", "desc")
+          .limit(1)
+      );
+      lastDrawnAt = lastDraw.docs[0]?.get("drawnAt");
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const cooldownMs = COOLDOWN_MINUTES * 60 * 1000;
+    if (lastDrawnAt && now.toMillis() - lastDrawnAt.toMillis() < cooldownMs) {
+      if (lastDrawnAt.toMillis() >= requestedAt.toMillis()) {
+        return {status: "already-drawn", cardId: state.get("lastCardId")};
+      }
+      const remainingMinutes = Math.ceil((cooldownMs - (now.toMillis() - lastDrawnAt.toMillis())) / 60000);
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `Please wait ${remainingMinutes} minutes before drawing again`
+      );
+    }
+
+    const deck = await getUnreadDeck(db, userId, pairId, transaction);
+    if (deck.length === 0) {
+      return {status: "exhausted", completedCycles: state.get("cycle") ?? 0};
+    }
+
+    const pair = await transaction.get(db.collection(PAIRS_COLLECTION).doc(pairId));
+    const strategy = getDrawStrategy(pair.get("drawStrategy"));
+    const {id: selectedId} = selectNextCard(strategy, deck.map(toCandidate), random);
+    const selected = deck.find((card) => card.id === selectedId)!;
+
+    transaction.update(selected.ref, {
+      isRead: true,
+      lastDrawnAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.set(stateRef, {
+      lastDrawnAt: admin.firestore.FieldValue.serverTimestamp(),
+      lastCardId: selected.id,
+      drawCount: admin.firestore.FieldValue.increment(1),
+      cycleDrawCount: admin.firestore.FieldValue.increment(1),
+      // The first cycle starts with the first draw
+      ...(state.get("cycleStartedAt") ? {} : {cycleStartedAt: admin.firestore.FieldValue.serverTimestamp()}),
+    }, {merge: true});
+    transaction.set(drawRef, {
+      cardId: selected.id,
+      viewedBy: userId,
+      drawnAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return {status: "drawn", cardId: selected.id};
+  });
+
+  const attempt = await attemptDraw();
+  if (attempt.status !== "exhausted") {
+    return attempt;
+  }
+  if (!(await startNextCycle(db, userId, pairId, attempt.completedCycles))) {
+    return {status: "empty"};
+  }
+
+  const retry = await attemptDraw();
+  return retry.status === "exhausted" ? {status: "empty"} : retry;
+}
+
+/**
+ * Callable: draw a card from the caller's deck
+ * The only way to draw; clients can't write read state or draw history themselves.
+ */
+export const drawCard = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "Sign in to draw a card");
+  }
+
+  const pairId = data?.pairId;
+  if (typeof pairId !== "string" || pairId.length === 0) {
+    throw new functions.https.HttpsError("invalid-argument", "pairId is required");
+  }
+
+  return await drawCardForUser(admin.firestore(), context.auth.uid, pairId);
 });
 
+/**
+ * Trigger: clean up after a card's creator deletes it
+ * Flags the card's draws, so recent-draw lists can leave them out without loading
+ * the card, and removes the reactions to it, which are sealed with the pair secret
+ * rather than the card's destroyed content key.
+ */
+export const onCardDeleted = functions.firestore.document(`${CARDS_COLLECTION}/{cardId}`)
+  .onUpdate(async (change, context) => {
+    if (change.before.get("deletedAt") || !change.after.get("deletedAt")) {
+      return;
+    }
+
+    const db = admin.firestore();
+    const draws = await db.collection(DRAW_HISTORY_COLLECTION).doc(change.after.get("pairId"))
+      .collection("draws")
+      .where("cardId", "==", context.params.cardId)
+      .get();
+    await updateInBatches(db, draws.docs, () => ({deleted: true}));
+
+    const reactions = await change.after.ref.collection(REACTIONS_SUBCOLLECTION).get();
+    const batch = db.batch();
+    reactions.docs.forEach((reaction) => batch.delete(reaction.ref));
+    await batch.commit();
+  });
@@ -0,0 +1,96 @@
+import * as admin from "firebase-admin";
+import {createSeededRandom} from "../src/drawStrategies";
+import {drawCardForUser} from "../src/index";
+
+// Needs a running Firestore emulator; `npm run test:emulator` starts one for the run
+const describeEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeEmulator("drawCardForUser against the Firestore emulator", () => {
+  const db = admin.firestore();
+  let pairId: string;
+  let alice: string;
+  let bob: string;
+
+  // Fresh users and pair per test, so cooldowns and decks never carry over
+  beforeEach(async () => {
+    pairId = db.collection("pairs").doc().id;
+    alice = `alice-${pairId}`;
+    bob = `bob-${pairId}`;
+    await db.collection("pairs").doc(pairId).set({user1Id: alice, user2Id: bob});
+    await db.collection("users").doc(alice).set({partnerId: pairId});
+    await db.collection("users").doc(bob).set({partnerId: pairId});
+  });
+
+  async function addCard(fields: Record<string, unknown>): Promise<string> {
+    const ref = await db.collection("cards").add({
+      pairId,
+      creatorId: bob,
+      recipientId: alice,
+      isRead: false,
+      createdAt: admin.firestore.Timestamp.now(),
+      ...fields,
+    });
+    return ref.id;
+  }
+
+  async function cyclesFor(userId: string): Promise<admin.firestore.DocumentData[]> {
+    const cycles = await db.collection("drawHistory").doc(pairId).collection("cycles")
+      .where("userId", "==", userId)
+      .get();
+    return cycles.docs.map((cycle) => cycle.data());
+  }
+
+  it("draws a card from the partner's deck and records it", async () => {
+    const cardIds = [await addCard({}), await addCard({}), await addCard({})];
+
+    const result = await drawCardForUser(db, alice, pairId, createSeededRandom(7));
+
+    expect(result.status).toBe("drawn");
+    const cardId = (result as {cardId: string}).cardId;
+    expect(cardIds).toContain(cardId);
+    expect((await db.collection("cards").doc(cardId).get()).get("isRead")).toBe(true);
+
+    const draws = await db.collection("drawHistory").doc(pairId).collection("draws").get();
+    expect(draws.docs.map((draw) => draw.get("cardId"))).toEqual([cardId]);
+    expect(draws.docs[0].get("viewedBy")).toBe(alice);
+  });
+
+  it("reports an empty deck when the partner hasn't written anything", async () => {
+    expect(await drawCardForUser(db, alice, pairId)).toEqual({status: "empty"});
+  });
+
+  it("never draws the user's own cards", async () => {
+    await addCard({creatorId: alice, recipientId: bob});
+    await addCard({creatorId: alice, recipientId: bob});
+
+    expect(await drawCardForUser(db, alice, pairId)).toEqual({status: "empty"});
+    expect(await cyclesFor(alice)).toEqual([]);
+  });
+
+  it("resets an exhausted deck in the draw and records one cycle", async () => {
+    await addCard({isRead: true});
+    await addCard({isRead: true});
+
+    const result = await drawCardForUser(db, alice, pairId, createSeededRandom(7));
+
+    expect(result.status).toBe("drawn");
+    const cards = await db.collection("cards").where("pairId", "==", pairId).get();
+    expect(cards.docs.filter((card) => card.get("isRead")).map((card) => card.id))
+      .toEqual([(result as {cardId: string}).cardId]);
+    expect((await cyclesFor(alice)).map((cycle) => cycle.cycle)).toEqual([1]);
+  });
+
+  it("gives older cards a recipient without counting a cycle", async () => {
+    // Cards written before recipients were recorded have no recipientId
+    for (const cardId of [await addCard({}), await addCard({})]) {
+      await db.collection("cards").doc(cardId).update({recipientId: admin.firestore.FieldValue.delete()});
+    }
+
+    const result = await drawCardForUser(db, alice, pairId, createSeededRandom(7));
+
+    expect(result.status).toBe("drawn");
+    const cards = await db.collection("cards").where("pairId", "==", pairId).get();
+    expect(cards.docs.map((card) => card.get("recipientId"))).toEqual([alice, alice]);
+    expect(await cyclesFor(alice)).toEqual([]);
+  });
+});
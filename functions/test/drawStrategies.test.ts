@@ -0,0 +1,113 @@
+import {
+  DRAW_STRATEGIES,
+  createSeededRandom,
+  getDrawStrategy,
+  selectNextCard,
+  type DrawCandidate,
+  type DrawStrategyName,
+} from "../src/drawStrategies";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function candidate(id: string, overrides: Partial<DrawCandidate> = {}): DrawCandidate {
+  return {
+    id,
+    createdAt: 0,
+    lastDrawnAt: null,
+    unlockAt: null,
+    drawNextOnUnlock: false,
+    ...overrides,
+  };
+}
+
+// Two cards tie on every score, so each strategy has a random choice to make
+const deck: DrawCandidate[] = [
+  candidate("a", {createdAt: 1 * DAY, lastDrawnAt: 5 * DAY}),
+  candidate("b", {createdAt: 2 * DAY, lastDrawnAt: null}),
+  candidate("c", {createdAt: 2 * DAY, lastDrawnAt: null}),
+  candidate("d", {createdAt: 4 * DAY, lastDrawnAt: 3 * DAY}),
+  candidate("e", {createdAt: 4 * DAY, lastDrawnAt: 3 * DAY}),
+  candidate("f", {createdAt: 1 * DAY, lastDrawnAt: 6 * DAY}),
+];
+
+/**
+ * Draw `count` cards in a row, each from what the previous draws left
+ */
+function drawSequence(name: DrawStrategyName, seed: number, count: number): string[] {
+  const random = createSeededRandom(seed);
+  let remaining = deck;
+  const drawn: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const {id} = selectNextCard(DRAW_STRATEGIES[name], remaining, random);
+    drawn.push(id);
+    remaining = remaining.filter((card) => card.id !== id);
+  }
+  return drawn;
+}
+
+describe("createSeededRandom", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const first = createSeededRandom(42);
+    const second = createSeededRandom(42);
+    const values = Array.from({length: 5}, () => first());
+    expect(Array.from({length: 5}, () => second())).toEqual(values);
+    values.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it("gives different sequences for different seeds", () => {
+    expect(createSeededRandom(1)()).not.toEqual(createSeededRandom(2)());
+  });
+});
+
+describe("selectNextCard", () => {
+  // Seed 7; ties within a score band are broken by the seeded random source
+  const expected: Record<DrawStrategyName, string[]> = {
+    "uniform": ["a", "b", "f", "e", "d", "c"],
+    "oldest-first": ["a", "f", "c", "b", "e", "d"],
+    "newest-first": ["d", "e", "c", "b", "f", "a"],
+    "least-recently-drawn": ["b", "c", "e", "d", "a", "f"],
+  };
+
+  (Object.keys(DRAW_STRATEGIES) as DrawStrategyName[]).forEach((name) => {
+    it(`is stable for a fixed seed with ${name}`, () => {
+      const drawn = drawSequence(name, 7, deck.length);
+      expect(drawSequence(name, 7, deck.length)).toEqual(drawn);
+      expect(drawn).toEqual(expected[name]);
+      expect([...drawn].sort()).toEqual(deck.map((card) => card.id));
+    });
+  });
+
+  it("draws unlocked capsules marked to come next first, earliest unlock first", () => {
+    const capsules = [
+      ...deck,
+      candidate("late", {unlockAt: 9 * DAY, drawNextOnUnlock: true}),
+      candidate("early", {unlockAt: 8 * DAY, drawNextOnUnlock: true}),
+    ];
+    const random = createSeededRandom(7);
+    expect(selectNextCard(DRAW_STRATEGIES["newest-first"], capsules, random).id).toBe("early");
+  });
+
+  it("treats a capsule drawn before as an ordinary card", () => {
+    const capsules = [
+      candidate("old", {createdAt: 1 * DAY}),
+      candidate("capsule", {createdAt: 2 * DAY, lastDrawnAt: 3 * DAY, drawNextOnUnlock: true}),
+    ];
+    const random = createSeededRandom(7);
+    expect(selectNextCard(DRAW_STRATEGIES["oldest-first"], capsules, random).id).toBe("old");
+  });
+});
+
+describe("getDrawStrategy", () => {
+  it("looks up known strategies", () => {
+    expect(getDrawStrategy("oldest-first")).toBe(DRAW_STRATEGIES["oldest-first"]);
+  });
+
+  it("falls back to uniform for missing, unknown and inherited names", () => {
+    [undefined, 3, "random", "toString", "constructor", "__proto__"].forEach((name) => {
+      expect(getDrawStrategy(name)).toBe(DRAW_STRATEGIES.uniform);
+    });
+  });
+});
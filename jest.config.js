@@ -4,6 +4,8 @@ module.exports = {
     'node_modules/(?!((jest-)?react-native|@react-native(-community)?)|expo(nent)?|@expo(nent)?/.*|@expo-google-fonts/.*|react-navigation|@react-navigation/.*|@unimodules/.*|unimodules|sentry-expo|native-base|react-native-svg)',
   ],
   setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
+  // Cloud Functions have their own package and Jest setup
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/functions/'],
   collectCoverageFrom: [
     '**/*.{ts,tsx}',
     '!**/*.d.ts',
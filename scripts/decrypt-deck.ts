@@ -0,0 +1,206 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { unwrapKeyring } from '../services/keyWrap';
+import { assertDeckExport, decryptDeck } from '../services/exportedDeck';
+import { isDecryptionError } from '../services/decryptionError';
+import { sketchToSvg } from '../services/sketch';
+import type { ExportedKeyBackup } from '../types';
+
+/**
+ * decrypt-deck
+ * Opens a deck exported from Settings > Export, using the exporting user's key backup,
+ * and prints every text card (or writes text, voice and photo cards to a directory).
+ * Runs entirely offline; nothing is fetched from Firebase.
+ *
+ * Usage: npm run decrypt-deck -- <deck.json> [--backup <backup.json>] [--out <dir>]
+ * The backup passphrase is read from LOVENOTES_PASSPHRASE, or prompted for.
+ */
+
+const USAGE = 'Usage: npm run decrypt-deck -- <deck.json> [--backup <backup.json>] [--out <dir>]';
+
+interface Options {
+  deckPath: string;
+  backupPath?: string;
+  outDir?: string;
+}
+
+function parseArgs(args: string[]): Options {
+  let deckPath: string | undefined;
+  let backupPath: string | undefined;
+  let outDir: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--backup' || arg === '--out') {
+      const value = args[++i];
+      if (!value) {
+        throw new Error(`${arg} needs a value\n${USAGE}`);
+      }
+      if (arg === '--backup') {
+        backupPath = value;
+      } else {
+        outDir = value;
+      }
+    } else if (arg.startsWith('--') || deckPath) {
+      throw new Error(`Unexpected argument: ${arg}\n${USAGE}`);
+    } else {
+      deckPath = arg;
+    }
+  }
+
+  if (!deckPath) {
+    throw new Error(`No deck file given\n${USAGE}`);
+  }
+  return { deckPath, backupPath, outDir };
+}
+
+/**
+ * Prompt for the passphrase without echoing it
+ * Reads keystrokes from the terminal in raw mode; piped input is read as one line.
+ */
+function promptPassphrase(): Promise<string> {
+  const { stdin } = process;
+  process.stderr.write('Backup passphrase: ');
+
+  if (!stdin.isTTY) {
+    return new Promise((resolve) => {
+      const rl = createInterface({ input: stdin });
+      rl.once('line', (answer: string) => {
+        rl.close();
+        resolve(answer);
+      });
+      rl.once('close', () => resolve(''));
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    let answer = '';
+
+    const done = () => {
+      stdin.removeListener('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write('\n');
+    };
+
+    const onData = (data: Buffer) => {
+      for (const char of data.toString('utf8')) {
+        if (char === '\r' || char === '\n' || char === '\u0004') {
+          done();
+          resolve(answer);
+          return;
+        }
+        if (char === '\u0003') {
+          done();
+          reject(new Error('Cancelled'));
+          return;
+        }
+        if (char === '\u007f' || char === '\b') {
+          answer = Array.from(answer).slice(0, -1).join('');
+        } else {
+          answer += char;
+        }
+      }
+    };
+
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on('data', onData);
+  });
+}
+
+function readJson(path: string): unknown {
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2));
+
+  const deck = readJson(options.deckPath);
+  assertDeckExport(deck);
+
+  const backup = options.backupPath
+    ? (readJson(options.backupPath) as ExportedKeyBackup)
+    : deck.keyBackup;
+  if (!backup) {
+    throw new Error('The export has no key backup; pass one with --backup');
+  }
+
+  const passphrase = process.env.LOVENOTES_PASSPHRASE ?? (await promptPassphrase());
+  const keyring = await unwrapKeyring({ ...backup, createdAt: new Date(backup.createdAt) }, passphrase);
+
+  if (options.outDir) {
+    mkdirSync(options.outDir, { recursive: true });
+  }
+
+  // Cards deleted by their creator are skipped, not counted as failures
+  let failures = 0;
+  let skipped = 0;
+  for (const { card, metadata, text, audio, image, sketch, error } of decryptDeck(deck, keyring)) {
+    const author = card.creatorId === deck.userId ? 'you' : 'partner';
+    const label = `${card.createdAt.slice(0, 10)} ${card.id} (${author})`;
+
+    if (isDecryptionError(error) && error.reason === 'destroyed') {
+      skipped++;
+      process.stderr.write(`${label}: deleted by its creator, skipped\n`);
+      continue;
+    }
+    if (error) {
+      failures++;
+      const reason = isDecryptionError(error) ? ` [${error.reason}]` : '';
+      process.stderr.write(`${label}: could not decrypt${reason}: ${error.message}\n`);
+      continue;
+    }
+
+    const heading = metadata?.inReplyTo ? `${label}, in reply to ${metadata.inReplyTo}` : label;
+    if (text !== undefined) {
+      if (options.outDir) {
+        writeFileSync(join(options.outDir, `${card.id}.txt`), text);
+      }
+      process.stdout.write(`${heading}\n${text}\n\n`);
+    } else if (audio) {
+      const fileName = `${card.id}${metadata?.audioFormat || '.m4a'}`;
+      if (options.outDir) {
+        writeFileSync(join(options.outDir, fileName), audio);
+        process.stdout.write(`${heading}\n[voice note saved as ${fileName}]\n\n`);
+      } else {
+        process.stdout.write(`${heading}\n[voice note, ${audio.length} bytes; use --out to save it]\n\n`);
+      }
+    } else if (image) {
+      const caption = metadata?.caption ? `${metadata.caption}\n` : '';
+      const fileName = `${card.id}.jpg`;
+      if (options.outDir) {
+        writeFileSync(join(options.outDir, fileName), image);
+        process.stdout.write(`${heading}\n${caption}[photo saved as ${fileName}]\n\n`);
+      } else {
+        process.stdout.write(`${heading}\n${caption}[photo, ${image.length} bytes; use --out to save it]\n\n`);
+      }
+    } else if (sketch) {
+      const fileName = `${card.id}.svg`;
+      if (options.outDir) {
+        writeFileSync(join(options.outDir, fileName), sketchToSvg(sketch));
+        process.stdout.write(`${heading}\n[sketch saved as ${fileName}]\n\n`);
+      } else {
+        process.stdout.write(`${heading}\n[sketch, ${sketch.strokes.length} strokes; use --out to save it]\n\n`);
+      }
+    }
+  }
+
+  const decrypted = deck.cards.length - failures - skipped;
+  process.stderr.write(
+    `Decrypted ${decrypted} of ${deck.cards.length} cards` +
+      (skipped ? `, ${skipped} deleted` : '') +
+      (failures ? `, ${failures} failed` : '') +
+      '\n'
+  );
+  return failures ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error: Error) => {
+    process.stderr.write(`${error.message}\n`);
+    process.exit(2);
+  }
+);
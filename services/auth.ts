@@ -9,6 +9,7 @@ import {
 import { doc, setDoc, getDoc } from 'firebase/firestore';
 import { auth, db } from './firebase';
 import { encryptionService } from './encryption';
+import { keyBackupService } from './keyBackup';
 import type { User, ConnectionStatus } from '../types';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
@@ -84,13 +85,8 @@ class AuthService {
         createdAt: userData.createdAt?.toDate() || new Date(),
       };
 
-      // Verify private key exists locally
-      const privateKey = await encryptionService.getPrivateKey();
-      if (!privateKey) {
-        throw new Error(
-          'Private key not found. This may happen if you cleared app data. Please contact support.'
-        );
-      }
+      // A missing private key is not fatal: the key recovery screen restores it
+      // from a passphrase backup or links it from another signed-in device
 
       // Cache user data locally
       await AsyncStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
@@ -101,6 +97,24 @@ class AuthService {
     }
   }
 
+  /**
+   * Check if the private key is present on this device
+   */
+  async hasPrivateKey(): Promise<boolean> {
+    return (await encryptionService.getPrivateKey()) !== null;
+  }
+
+  /**
+   * Restore the private key from the user's passphrase-protected backup
+   */
+  async restorePrivateKey(user: User, passphrase: string): Promise<void> {
+    try {
+      await keyBackupService.restoreBackup(user.id, user.publicKey, passphrase);
+    } catch (error: any) {
+      throw new Error(`Key restore failed: ${error.message}`);
+    }
+  }
+
   /**
    * Sign out current user
    */
@@ -10,18 +10,53 @@ import {
   orderBy,
   limit,
   serverTimestamp,
+  deleteField,
+  type DocumentData,
+  type DocumentSnapshot,
 } from 'firebase/firestore';
-import * as FileSystem from 'expo-file-system/legacy';
+import { File } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
 import { encodeBase64, decodeBase64 } from 'tweetnacl-util';
-import { db } from './firebase';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './firebase';
 import { encryptionService } from './encryption';
-import type { Card, CardType, CardTemplate } from '../types';
+import { KeyPurpose } from './subkeys';
+import { DecryptionError, isDecryptionError } from './decryptionError';
+import { encodeSketch, decodeSketch } from './sketch';
+import type {
+  Card,
+  CardType,
+  CardTemplate,
+  CardMetadata,
+  DecryptedCard,
+  DeckCycle,
+  DrawCardResponse,
+  DrawResult,
+  DrawStrategyName,
+  PickedImage,
+  RecentDraw,
+  SharedSecret,
+  Sketch,
+  TimeCapsule,
+} from '../types';
 
 const CARDS_COLLECTION = 'cards';
 const DRAW_HISTORY_COLLECTION = 'drawHistory';
+const DRAW_STATE_SUBCOLLECTION = 'drawState';
+const CYCLES_SUBCOLLECTION = 'cycles';
+const PAIRS_COLLECTION = 'pairs';
 const COOLDOWN_MINUTES = 15;
 const MAX_TEXT_LENGTH = 200;
 const MAX_VOICE_SECONDS = 60;
+const MAX_CAPTION_LENGTH = 100;
+// Photos are stored in the card document like voice notes, base64 encoded (a third larger),
+// so the JPEG is capped well below Firestore's 1 MiB document limit (see the README)
+const MAX_IMAGE_BYTES = 400 * 1024;
+// Encoded photo, thumbnail and metadata together; the rest of the 1 MiB stays free for the
+// card's other fields, with room to spare for fields added later
+const MAX_IMAGE_CARD_BYTES = 700 * 1024;
+const IMAGE_DIMENSIONS = [1280, 1024, 800]; // Longest side, tried in turn until the photo fits
+const THUMBNAIL_DIMENSION = 160;
 
 /**
  * Card Templates
@@ -68,31 +103,185 @@ class CardService {
     return match ? `.${match[1]}` : '.m4a'; // Default to .m4a if not found
   }
 
+  /**
+   * Generate a content key for a new card and wrap it with the pair secret
+   */
+  private async createContentKey(
+    sharedSecret: SharedSecret
+  ): Promise<{ contentKey: Uint8Array; wrappedContentKey: string }> {
+    const contentKey = await encryptionService.generateContentKey();
+    const wrappedContentKey = await encryptionService.wrapContentKey(
+      contentKey,
+      sharedSecret.secret,
+      sharedSecret.pairId,
+      sharedSecret.keyEpoch
+    );
+    return { contentKey, wrappedContentKey };
+  }
+
+  /**
+   * Get the key a card's content is sealed with
+   * Cards created before content keys were sealed directly with the pair secret.
+   */
+  private async getContentKey(card: Card, sharedSecret: SharedSecret): Promise<Uint8Array> {
+    if (card.contentKeyDestroyed) {
+      throw new DecryptionError('This card can no longer be opened', 'destroyed');
+    }
+
+    if ((card.keyEpoch ?? 0) !== sharedSecret.keyEpoch) {
+      throw new Error('Card was encrypted under a different key epoch');
+    }
+
+    if (!card.wrappedContentKey) {
+      return sharedSecret.secret;
+    }
+    return await encryptionService.unwrapContentKey(
+      card.wrappedContentKey,
+      sharedSecret.secret,
+      card.pairId
+    );
+  }
+
+  /**
+   * Classify a failure to open a card's content or metadata
+   * With a content key, a wrong pair key already fails at unwrap, so a failure
+   * past that point means the content itself is damaged. Older cards are sealed
+   * with the pair secret directly, where the two can't be told apart.
+   */
+  private toDecryptionError(card: Card, error: unknown): unknown {
+    if (isDecryptionError(error)) {
+      return error;
+    }
+    console.error('Error decrypting card:', error);
+    return card.wrappedContentKey
+      ? new DecryptionError('This note is damaged and cannot be opened', 'corrupted')
+      : new DecryptionError('This note could not be decrypted with your current keys', 'wrong-key');
+  }
+
+  /**
+   * Seal a card's metadata with its content key
+   */
+  private async sealMetadata(
+    pairId: string,
+    metadata: CardMetadata,
+    contentKey: Uint8Array
+  ): Promise<string> {
+    return await encryptionService.encryptText(JSON.stringify(metadata), contentKey, 0, {
+      purpose: KeyPurpose.Metadata,
+      pairId,
+    });
+  }
+
+  /**
+   * Read a card's metadata
+   * Cards created before sealed metadata kept these fields in plaintext on the document.
+   */
+  private async openMetadata(card: Card, contentKey: Uint8Array): Promise<CardMetadata> {
+    if (!card.encryptedMetadata) {
+      return {
+        contentType: card.contentType ?? 'text',
+        templateId: card.templateUsed,
+        audioFormat: card.audioFormat,
+      };
+    }
+    const json = await encryptionService.decryptText(card.encryptedMetadata, contentKey, {
+      purpose: KeyPurpose.Metadata,
+      pairId: card.pairId,
+    });
+    return JSON.parse(json) as CardMetadata;
+  }
+
+  /**
+   * Fields that replace a card's plaintext metadata with a sealed copy
+   */
+  private async sealLegacyMetadata(
+    card: Card,
+    metadata: CardMetadata,
+    contentKey: Uint8Array
+  ): Promise<Record<string, unknown>> {
+    return {
+      encryptedMetadata: await this.sealMetadata(card.pairId, metadata, contentKey),
+      contentType: deleteField(),
+      templateUsed: deleteField(),
+      audioFormat: deleteField(),
+    };
+  }
+
+  /**
+   * Map a card document, converting its timestamps to dates
+   */
+  private toCard(cardDoc: DocumentSnapshot<DocumentData>): Card {
+    const data = cardDoc.data() ?? {};
+    return {
+      id: cardDoc.id,
+      ...data,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      lastDrawnAt: data.lastDrawnAt?.toDate(),
+      unlockAt: data.unlockAt?.toDate(),
+      editedAt: data.editedAt?.toDate(),
+      deletedAt: data.deletedAt?.toDate(),
+    } as Card;
+  }
+
+  /**
+   * Card fields for a time capsule; checks the unlock date is in the future
+   */
+  private capsuleFields(capsule?: TimeCapsule): Pick<Card, 'unlockAt' | 'drawNextOnUnlock'> {
+    if (!capsule) {
+      return {};
+    }
+    if (capsule.unlockAt.getTime() <= Date.now()) {
+      throw new Error('Unlock date must be in the future');
+    }
+    return {
+      unlockAt: capsule.unlockAt,
+      ...(capsule.drawNextOnUnlock ? { drawNextOnUnlock: true } : {}),
+    };
+  }
+
   /**
    * Create a text card
+   * `inReplyTo` links a reply to the card that inspired it; it's sealed in the metadata.
    */
   async createTextCard(
     pairId: string,
     creatorId: string,
+    recipientId: string,
     content: string,
+    sharedSecret: SharedSecret,
     templateId?: string,
-    sharedSecret: Uint8Array
+    capsule?: TimeCapsule,
+    inReplyTo?: string
   ): Promise<string> {
+    // Checked against the real text; length-hiding padding is added during encryption
     if (content.length > MAX_TEXT_LENGTH) {
       throw new Error(`Text must be ${MAX_TEXT_LENGTH} characters or less`);
     }
 
-    // Encrypt content
-    const encryptedContent = await encryptionService.encryptText(content, sharedSecret);
+    // Encrypt content and metadata under a fresh content key, wrapped with the pair's current key epoch
+    const { contentKey, wrappedContentKey } = await this.createContentKey(sharedSecret);
+    const encryptedContent = await encryptionService.encryptText(content, contentKey, 0, {
+      purpose: KeyPurpose.Text,
+      pairId,
+    });
+    const encryptedMetadata = await this.sealMetadata(
+      pairId,
+      { contentType: 'text', templateId, inReplyTo },
+      contentKey
+    );
 
     const cardData: Omit<Card, 'id'> = {
       pairId,
       creatorId,
+      recipientId,
       encryptedContent,
-      contentType: 'text',
+      encryptedMetadata,
       isRead: false,
       createdAt: new Date(),
-      templateUsed: templateId,
+      keyEpoch: sharedSecret.keyEpoch,
+      wrappedContentKey,
+      ...(sharedSecret.keyIds ? { keyIds: sharedSecret.keyIds } : {}),
+      ...this.capsuleFields(capsule),
     };
 
     const cardRef = doc(collection(db, CARDS_COLLECTION));
@@ -106,61 +295,72 @@ class CardService {
 
   /**
    * Create a voice card
+   * `inReplyTo` links a reply to the card that inspired it; it's sealed in the metadata.
    */
   async createVoiceCard(
     pairId: string,
     creatorId: string,
+    recipientId: string,
     audioUri: string,
-    sharedSecret: Uint8Array,
-    audioFormat?: string
+    sharedSecret: SharedSecret,
+    audioFormat?: string,
+    durationMs?: number,
+    capsule?: TimeCapsule,
+    inReplyTo?: string
   ): Promise<string> {
     if (!audioUri) {
       throw new Error('Audio URI is required');
     }
 
     try {
-      // Read audio file as base64 using expo-file-system legacy API
-      // The new File API doesn't have readAsStringAsync, so we use the legacy API
-      const base64Audio = await FileSystem.readAsStringAsync(audioUri, {
-        encoding: FileSystem.EncodingType.Base64,
-      });
-      
-      if (!base64Audio) {
-        throw new Error('Audio file is empty or could not be read');
+      // Stream the recording from disk one chunk at a time with the File API,
+      // instead of reading the whole file as base64 and decoding it
+      const audioFile = new File(audioUri);
+      const handle = audioFile.open();
+      const { contentKey, wrappedContentKey } = await this.createContentKey(sharedSecret);
+      let encryptedContentBase64: string;
+      try {
+        const size = handle.size ?? 0;
+        if (size === 0) {
+          throw new Error('Audio file is empty or could not be read');
+        }
+
+        // Encrypt audio into a chunked envelope under a fresh content key,
+        // base64-encoded chunk by chunk for storage
+        encryptedContentBase64 = await encryptionService.encryptVoiceStream(
+          size,
+          (length) => handle.readBytes(length),
+          contentKey,
+          0,
+          { purpose: KeyPurpose.Voice, pairId }
+        );
+      } finally {
+        handle.close();
       }
 
-      // Convert base64 to Uint8Array for encryption
-      // Pass Uint8Array directly - no ArrayBuffer conversion needed
-      const audioBytes = decodeBase64(base64Audio);
-
-      // Encrypt audio (now accepts Uint8Array directly)
-      const { encryptedData, nonce } = await encryptionService.encryptVoiceFile(
-        audioBytes,
-        sharedSecret
-      );
-
-      // Combine nonce + encrypted data for storage
-      const combined = new Uint8Array(nonce.length + encryptedData.length);
-      combined.set(nonce);
-      combined.set(encryptedData, nonce.length);
-
-      // Store encrypted voice data directly in Firestore as base64 string
-      // This avoids Firebase Storage Blob issues in React Native
-      // Firestore 1MB limit should be sufficient for encrypted 60-second voice files
-      const encryptedContentBase64 = encodeBase64(combined);
-
       // Extract audio format from URI if not provided
       const format = audioFormat || this.extractAudioFormat(audioUri);
+      const encryptedMetadata = await this.sealMetadata(
+        pairId,
+        { contentType: 'voice', audioFormat: format, durationMs, inReplyTo },
+        contentKey
+      );
 
       // Create card document
       const cardData: Omit<Card, 'id'> = {
         pairId,
         creatorId,
-        encryptedContent: encryptedContentBase64, // Store encrypted voice data here
-        contentType: 'voice',
-        audioFormat: format, // Store format for proper playback
+        recipientId,
+        // Encrypted voice data is stored directly in Firestore as a base64 string
+        // This avoids Firebase Storage Blob issues in React Native
+        encryptedContent: encryptedContentBase64,
+        encryptedMetadata,
         isRead: false,
         createdAt: new Date(),
+        keyEpoch: sharedSecret.keyEpoch,
+        wrappedContentKey,
+        ...(sharedSecret.keyIds ? { keyIds: sharedSecret.keyIds } : {}),
+        ...this.capsuleFields(capsule),
       };
 
       const cardRef = doc(collection(db, CARDS_COLLECTION));
@@ -176,26 +376,164 @@ class CardService {
   }
 
   /**
-   * Get unread cards for a pair
+   * Downscale a photo to JPEG with its longest side at most `maxDimension`
+   * Re-encoding also drops the original's EXIF data, including any location.
+   */
+  private async downscaleImage(
+    image: PickedImage,
+    maxDimension: number,
+    compress: number
+  ): Promise<Uint8Array> {
+    const context = ImageManipulator.manipulate(image.uri);
+    if (Math.max(image.width, image.height) > maxDimension) {
+      context.resize(image.width >= image.height ? { width: maxDimension } : { height: maxDimension });
+    }
+    const rendered = await context.renderAsync();
+    const result = await rendered.saveAsync({ format: SaveFormat.JPEG, compress, base64: true });
+    if (!result.base64) {
+      throw new Error('Photo could not be processed');
+    }
+    return decodeBase64(result.base64);
+  }
+
+  /**
+   * Create a photo card
+   * The photo is downscaled until it fits the size limit, and stored with a small
+   * thumbnail; both are sealed with the card's content key, the caption in the metadata.
+   */
+  async createImageCard(
+    pairId: string,
+    creatorId: string,
+    recipientId: string,
+    image: PickedImage,
+    sharedSecret: SharedSecret,
+    caption?: string,
+    capsule?: TimeCapsule,
+    inReplyTo?: string
+  ): Promise<string> {
+    if (caption && caption.length > MAX_CAPTION_LENGTH) {
+      throw new Error(`Caption must be ${MAX_CAPTION_LENGTH} characters or less`);
+    }
+
+    let photo: Uint8Array | undefined;
+    for (const dimension of IMAGE_DIMENSIONS) {
+      photo = await this.downscaleImage(image, dimension, 0.7);
+      if (photo.length <= MAX_IMAGE_BYTES) {
+        break;
+      }
+    }
+    if (!photo || photo.length > MAX_IMAGE_BYTES) {
+      throw new Error('This photo is too large, even after downscaling');
+    }
+    const thumbnail = await this.downscaleImage(image, THUMBNAIL_DIMENSION, 0.6);
+
+    const { contentKey, wrappedContentKey } = await this.createContentKey(sharedSecret);
+    const context = { purpose: KeyPurpose.Image, pairId };
+    const encryptedContent = encodeBase64(await encryptionService.encryptImage(photo, contentKey, 0, context));
+    const encryptedThumbnail = encodeBase64(
+      await encryptionService.encryptImage(thumbnail, contentKey, 0, context)
+    );
+    const encryptedMetadata = await this.sealMetadata(
+      pairId,
+      { contentType: 'image', caption: caption || undefined, inReplyTo },
+      contentKey
+    );
+    // Check before writing, so an oversized card fails with a clear message rather than a Firestore error
+    const encodedLength = encryptedContent.length + encryptedThumbnail.length + encryptedMetadata.length;
+    if (encodedLength > MAX_IMAGE_CARD_BYTES) {
+      throw new Error('This photo is too large to send. Try a smaller or less detailed photo.');
+    }
+
+    const cardData: Omit<Card, 'id'> = {
+      pairId,
+      creatorId,
+      recipientId,
+      encryptedContent,
+      encryptedMetadata,
+      encryptedThumbnail,
+      isRead: false,
+      createdAt: new Date(),
+      keyEpoch: sharedSecret.keyEpoch,
+      wrappedContentKey,
+      ...(sharedSecret.keyIds ? { keyIds: sharedSecret.keyIds } : {}),
+      ...this.capsuleFields(capsule),
+    };
+
+    const cardRef = doc(collection(db, CARDS_COLLECTION));
+    await setDoc(cardRef, {
+      ...cardData,
+      createdAt: serverTimestamp(),
+    });
+
+    return cardRef.id;
+  }
+
+  /**
+   * Create a hand-drawn sketch card
+   * The strokes are encoded compactly (see sketch.ts) and sealed like card text.
    */
-  async getUnreadCards(pairId: string): Promise<Card[]> {
+  async createSketchCard(
+    pairId: string,
+    creatorId: string,
+    recipientId: string,
+    sketch: Sketch,
+    sharedSecret: SharedSecret,
+    capsule?: TimeCapsule,
+    inReplyTo?: string
+  ): Promise<string> {
+    const { contentKey, wrappedContentKey } = await this.createContentKey(sharedSecret);
+    const encryptedContent = await encryptionService.encryptText(encodeSketch(sketch), contentKey, 0, {
+      purpose: KeyPurpose.Sketch,
+      pairId,
+    });
+    const encryptedMetadata = await this.sealMetadata(
+      pairId,
+      { contentType: 'sketch', inReplyTo },
+      contentKey
+    );
+
+    const cardData: Omit<Card, 'id'> = {
+      pairId,
+      creatorId,
+      recipientId,
+      encryptedContent,
+      encryptedMetadata,
+      isRead: false,
+      createdAt: new Date(),
+      keyEpoch: sharedSecret.keyEpoch,
+      wrappedContentKey,
+      ...(sharedSecret.keyIds ? { keyIds: sharedSecret.keyIds } : {}),
+      ...this.capsuleFields(capsule),
+    };
+
+    const cardRef = doc(collection(db, CARDS_COLLECTION));
+    await setDoc(cardRef, {
+      ...cardData,
+      createdAt: serverTimestamp(),
+    });
+
+    return cardRef.id;
+  }
+
+  /**
+   * Get the time capsules in a viewer's deck that haven't unlocked yet, soonest first
+   * Only routing fields are used; nothing is decrypted.
+   */
+  async getSealedCards(pairId: string, viewerId: string): Promise<Card[]> {
     const q = query(
       collection(db, CARDS_COLLECTION),
       where('pairId', '==', pairId),
-      where('isRead', '==', false),
-      orderBy('createdAt', 'desc')
+      where('recipientId', '==', viewerId),
+      where('unlockAt', '>', new Date()),
+      orderBy('unlockAt', 'asc')
     );
 
     const snapshot = await getDocs(q);
-    return snapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-      createdAt: doc.data().createdAt?.toDate() || new Date(),
-    })) as Card[];
+    return snapshot.docs.map((doc) => this.toCard(doc)).filter((card) => !card.deletedAt);
   }
 
   /**
-   * Get all cards for a pair
+   * Get all cards for a pair, leaving out deleted ones
    */
   async getAllCards(pairId: string): Promise<Card[]> {
     const q = query(
@@ -205,101 +543,60 @@ class CardService {
     );
 
     const snapshot = await getDocs(q);
-    return snapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-      createdAt: doc.data().createdAt?.toDate() || new Date(),
-    })) as Card[];
+    return snapshot.docs.map((doc) => this.toCard(doc)).filter((card) => !card.deletedAt);
   }
 
   /**
-   * Draw a random card from unread deck
+   * Draw a random card from the viewer's unread deck
+   * The drawCard Cloud Function checks the cooldown with server time, picks the
+   * card (starting the viewer's next cycle if the deck is exhausted), marks it
+   * read and records the draw in one transaction. A draw that loses a race with
+   * another tap or device gets `already-drawn`.
    */
-  async drawRandomCard(
-    pairId: string,
-    viewerId: string,
-    sharedSecret: Uint8Array
-  ): Promise<Card | null> {
-    // Check cooldown
+  async drawRandomCard(pairId: string, viewerId: string): Promise<DrawResult> {
+    // Check cooldown first for a friendly message; the server enforces it regardless
     const canDraw = await this.checkCooldown(pairId, viewerId);
     if (!canDraw.allowed) {
       throw new Error(`Please wait ${canDraw.remainingMinutes} minutes before drawing again`);
     }
 
-    // Get unread cards
-    const unreadCards = await this.getUnreadCards(pairId);
-
-    if (unreadCards.length === 0) {
-      // No unread cards - check if we need to reset deck
-      const allCards = await this.getAllCards(pairId);
-      if (allCards.length === 0) {
-        return null; // No cards at all
-      }
-
-      // Reset all cards to unread
-      await this.resetDeck(pairId);
-      const resetUnreadCards = await this.getUnreadCards(pairId);
-      if (resetUnreadCards.length === 0) {
-        return null;
-      }
-
-      // Draw from reset deck
-      return this.selectAndMarkCard(resetUnreadCards, pairId, viewerId, sharedSecret);
+    const drawCard = httpsCallable<{ pairId: string }, DrawCardResponse>(functions, 'drawCard');
+    const { data } = await drawCard({ pairId });
+    if (data.status !== 'drawn') {
+      return data;
     }
 
-    // Draw from unread cards
-    return this.selectAndMarkCard(unreadCards, pairId, viewerId, sharedSecret);
+    const card = await this.getCard(data.cardId);
+    if (!card) {
+      throw new Error('Drawn card not found');
+    }
+    return { status: 'drawn', card };
   }
 
   /**
-   * Select a random card and mark it as read
+   * Reference the viewer's draw state: drawHistory/{pairId}/drawState/{userId}
+   * Written only by the drawCard function, in the same transaction as each draw.
    */
-  private async selectAndMarkCard(
-    cards: Card[],
-    pairId: string,
-    viewerId: string,
-    sharedSecret: Uint8Array
-  ): Promise<Card> {
-    // Select random card
-    const randomIndex = Math.floor(Math.random() * cards.length);
-    const selectedCard = cards[randomIndex];
-
-    // Mark as read
-    await updateDoc(doc(db, CARDS_COLLECTION, selectedCard.id), {
-      isRead: true,
-    });
-
-    // Record draw history
-    await this.recordDraw(pairId, selectedCard.id, viewerId);
-
-    return {
-      ...selectedCard,
-      isRead: true,
-    };
-  }
-
-  /**
-   * Reset all cards in deck to unread
-   */
-  async resetDeck(pairId: string): Promise<void> {
-    const allCards = await this.getAllCards(pairId);
-    const batch = allCards.map((card) =>
-      updateDoc(doc(db, CARDS_COLLECTION, card.id), {
-        isRead: false,
-      })
-    );
-
-    await Promise.all(batch);
+  private drawStateRef(pairId: string, userId: string) {
+    return doc(db, DRAW_HISTORY_COLLECTION, pairId, DRAW_STATE_SUBCOLLECTION, userId);
   }
 
   /**
    * Check cooldown before drawing
+   * Reads the viewer's draw state, falling back to draw history for users who
+   * last drew before draw state was recorded.
    */
   async checkCooldown(pairId: string, userId: string): Promise<{
     allowed: boolean;
     remainingMinutes: number;
     remainingSeconds: number;
   }> {
+    const stateDoc = await getDoc(this.drawStateRef(pairId, userId));
+    const lastDrawnAt: Date | undefined = stateDoc.data()?.lastDrawnAt?.toDate();
+    if (lastDrawnAt) {
+      return this.getCooldown(lastDrawnAt);
+    }
+
     // Reference the subcollection: drawHistory/{pairId}/draws
     const pairDocRef = doc(db, DRAW_HISTORY_COLLECTION, pairId);
     const drawsRef = collection(pairDocRef, 'draws');
@@ -316,7 +613,17 @@ class CardService {
     }
 
     const lastDraw = snapshot.docs[0].data();
-    const lastDrawTime = lastDraw.drawnAt?.toDate() || new Date(0);
+    return this.getCooldown(lastDraw.drawnAt?.toDate() || new Date(0));
+  }
+
+  /**
+   * Work out the cooldown remaining after a draw at the given time
+   */
+  private getCooldown(lastDrawTime: Date): {
+    allowed: boolean;
+    remainingMinutes: number;
+    remainingSeconds: number;
+  } {
     const now = new Date();
     const secondsSinceLastDraw = (now.getTime() - lastDrawTime.getTime()) / 1000;
     const cooldownSeconds = COOLDOWN_MINUTES * 60;
@@ -332,31 +639,37 @@ class CardService {
   }
 
   /**
-   * Record a draw in history
+   * Get how the pair's cards are picked when drawing
    */
-  private async recordDraw(pairId: string, cardId: string, viewedBy: string): Promise<void> {
-    // Reference the subcollection: drawHistory/{pairId}/draws/{drawId}
-    const pairDocRef = doc(db, DRAW_HISTORY_COLLECTION, pairId);
-    const drawsRef = collection(pairDocRef, 'draws');
-    const historyRef = doc(drawsRef);
-    await setDoc(historyRef, {
-      cardId,
-      viewedBy,
-      drawnAt: serverTimestamp(),
-    });
+  async getDrawStrategy(pairId: string): Promise<DrawStrategyName> {
+    const pairDoc = await getDoc(doc(db, PAIRS_COLLECTION, pairId));
+    return pairDoc.data()?.drawStrategy ?? 'uniform';
   }
 
   /**
-   * Get recent draw history
+   * Choose how the pair's cards are picked; applies to both partners' decks
    */
-  async getRecentDraws(pairId: string, limitCount: number = 5): Promise<any[]> {
-    // Reference the subcollection: drawHistory/{pairId}/draws/{drawId}
-    // First get the pair document, then its draws subcollection
-    const pairDocRef = doc(db, DRAW_HISTORY_COLLECTION, pairId);
-    const drawsRef = collection(pairDocRef, 'draws');
+  async setDrawStrategy(pairId: string, strategy: DrawStrategyName): Promise<void> {
+    await updateDoc(doc(db, PAIRS_COLLECTION, pairId), { drawStrategy: strategy });
+  }
+
+  /**
+   * Get how many times a user has gone through their deck
+   */
+  async getCompletedCycles(pairId: string, userId: string): Promise<number> {
+    const pairDoc = await getDoc(doc(db, PAIRS_COLLECTION, pairId));
+    return pairDoc.data()?.deckCycles?.[userId] ?? 0;
+  }
+
+  /**
+   * Get a user's completed deck cycles, most recent first
+   */
+  async getCycleHistory(pairId: string, userId: string, limitCount: number = 10): Promise<DeckCycle[]> {
+    const cyclesRef = collection(db, DRAW_HISTORY_COLLECTION, pairId, CYCLES_SUBCOLLECTION);
     const q = query(
-      drawsRef,
-      orderBy('drawnAt', 'desc'),
+      cyclesRef,
+      where('userId', '==', userId),
+      orderBy('endedAt', 'desc'),
       limit(limitCount)
     );
 
@@ -364,18 +677,280 @@ class CardService {
     return snapshot.docs.map((doc) => ({
       id: doc.id,
       ...doc.data(),
-      drawnAt: doc.data().drawnAt?.toDate() || new Date(),
+      startedAt: doc.data().startedAt?.toDate() ?? null,
+      endedAt: doc.data().endedAt?.toDate() || new Date(),
+    })) as DeckCycle[];
+  }
+
+  /**
+   * Get recent draw history
+   * Draws of cards their creator has since deleted are flagged by the
+   * onCardDeleted function, so no card needs loading here.
+   */
+  async getRecentDraws(pairId: string, limitCount: number = 5): Promise<RecentDraw[]> {
+    const drawsRef = collection(doc(db, DRAW_HISTORY_COLLECTION, pairId), 'draws');
+    const q = query(
+      drawsRef,
+      orderBy('drawnAt', 'desc'),
+      limit(limitCount)
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map((drawDoc) => ({
+      id: drawDoc.id,
+      cardId: drawDoc.data().cardId,
+      viewedBy: drawDoc.data().viewedBy,
+      drawnAt: drawDoc.data().drawnAt?.toDate() || new Date(),
+      deleted: drawDoc.data().deleted === true,
     }));
   }
 
   /**
-   * Decrypt card content
+   * Decrypt a card's metadata, and its text or strokes for text and sketch cards
+   * Voice audio is decrypted separately during playback.
    */
-  async decryptCard(card: Card, sharedSecret: Uint8Array): Promise<string> {
-    if (card.contentType === 'text') {
-      return await encryptionService.decryptText(card.encryptedContent, sharedSecret);
+  async decryptCard(card: Card, sharedSecret: SharedSecret): Promise<DecryptedCard> {
+    const contentKey = await this.getContentKey(card, sharedSecret);
+    try {
+      const metadata = await this.openMetadata(card, contentKey);
+
+      const decrypted: DecryptedCard = {
+        id: card.id,
+        pairId: card.pairId,
+        creatorId: card.creatorId,
+        createdAt: card.createdAt,
+        isRead: card.isRead,
+        metadata,
+      };
+      if (metadata.contentType === 'text') {
+        decrypted.text = await encryptionService.decryptText(card.encryptedContent, contentKey, {
+          purpose: KeyPurpose.Text,
+          pairId: card.pairId,
+        });
+      } else if (metadata.contentType === 'sketch') {
+        const encoded = await encryptionService.decryptText(card.encryptedContent, contentKey, {
+          purpose: KeyPurpose.Sketch,
+          pairId: card.pairId,
+        });
+        decrypted.sketch = decodeSketch(encoded);
+      }
+      return decrypted;
+    } catch (error) {
+      throw this.toDecryptionError(card, error);
     }
-    throw new Error('Voice cards are decrypted during playback');
+  }
+
+  /**
+   * Decrypt a voice card's audio
+   */
+  async decryptVoiceCard(card: Card, sharedSecret: SharedSecret): Promise<Uint8Array> {
+    const contentKey = await this.getContentKey(card, sharedSecret);
+    try {
+      return await encryptionService.decryptVoiceFile(decodeBase64(card.encryptedContent), contentKey, {
+        purpose: KeyPurpose.Voice,
+        pairId: card.pairId,
+      });
+    } catch (error) {
+      throw this.toDecryptionError(card, error);
+    }
+  }
+
+  /**
+   * Decrypt a photo card's photo, or just its thumbnail
+   */
+  async decryptImageCard(
+    card: Card,
+    sharedSecret: SharedSecret,
+    thumbnail: boolean = false
+  ): Promise<Uint8Array> {
+    const sealed = thumbnail ? card.encryptedThumbnail : card.encryptedContent;
+    if (!sealed) {
+      throw new Error('This card has no photo');
+    }
+
+    const contentKey = await this.getContentKey(card, sharedSecret);
+    try {
+      return await encryptionService.decryptImage(decodeBase64(sealed), contentKey, {
+        purpose: KeyPurpose.Image,
+        pairId: card.pairId,
+      });
+    } catch (error) {
+      throw this.toDecryptionError(card, error);
+    }
+  }
+
+  /**
+   * Decrypt a voice card's audio chunk by chunk, e.g. to write it straight to a file
+   */
+  async *decryptVoiceCardChunks(card: Card, sharedSecret: SharedSecret): AsyncGenerator<Uint8Array> {
+    const contentKey = await this.getContentKey(card, sharedSecret);
+    try {
+      yield* encryptionService.decryptVoiceChunks(card.encryptedContent, contentKey, {
+        purpose: KeyPurpose.Voice,
+        pairId: card.pairId,
+      });
+    } catch (error) {
+      throw this.toDecryptionError(card, error);
+    }
+  }
+
+  /**
+   * Move a card to a newer key epoch
+   * Only the card's creator may do this. Usually just the small content key is
+   * re-wrapped; older cards without a content key are re-encrypted once under a
+   * new content key.
+   */
+  async rekeyCard(card: Card, from: SharedSecret, to: SharedSecret, userId: string): Promise<void> {
+    if (to.keyEpoch <= (card.keyEpoch ?? 0)) {
+      throw new Error('Cards can only be moved to a newer key epoch');
+    }
+    if (card.creatorId !== userId) {
+      throw new Error('Only a card\'s creator can move it to a new key');
+    }
+
+    if (card.wrappedContentKey) {
+      const contentKey = await this.getContentKey(card, from);
+      await updateDoc(doc(db, CARDS_COLLECTION, card.id), {
+        wrappedContentKey: await encryptionService.wrapContentKey(
+          contentKey,
+          to.secret,
+          card.pairId,
+          to.keyEpoch
+        ),
+        keyEpoch: to.keyEpoch,
+        ...(to.keyIds ? { keyIds: to.keyIds } : {}),
+        // Seal plaintext metadata left over from before sealed metadata while we're here
+        ...(card.encryptedMetadata
+          ? {}
+          : await this.sealLegacyMetadata(card, await this.openMetadata(card, contentKey), contentKey)),
+      });
+      return;
+    }
+
+    const decrypted = await this.decryptCard(card, from);
+    const { contentKey, wrappedContentKey } = await this.createContentKey(to);
+    let encryptedContent: string;
+    if (decrypted.metadata.contentType === 'text') {
+      encryptedContent = await encryptionService.encryptText(decrypted.text ?? '', contentKey, 0, {
+        purpose: KeyPurpose.Text,
+        pairId: card.pairId,
+      });
+    } else {
+      const audio = await this.decryptVoiceCard(card, from);
+      encryptedContent = encodeBase64(
+        await encryptionService.encryptVoiceFile(audio, contentKey, 0, {
+          purpose: KeyPurpose.Voice,
+          pairId: card.pairId,
+        })
+      );
+    }
+
+    await updateDoc(doc(db, CARDS_COLLECTION, card.id), {
+      encryptedContent,
+      wrappedContentKey,
+      keyEpoch: to.keyEpoch,
+      ...(to.keyIds ? { keyIds: to.keyIds } : {}),
+      ...(await this.sealLegacyMetadata(card, decrypted.metadata, contentKey)),
+    });
+  }
+
+  /**
+   * Make a card permanently unreadable by deleting its wrapped content key
+   * Only cards with a content key can be destroyed this way.
+   */
+  async destroyContentKey(card: Card): Promise<void> {
+    if (!card.wrappedContentKey) {
+      throw new Error('This card was created before content keys and cannot be destroyed this way');
+    }
+
+    await updateDoc(doc(db, CARDS_COLLECTION, card.id), {
+      wrappedContentKey: deleteField(),
+      contentKeyDestroyed: true,
+    });
+  }
+
+  /**
+   * Whether a user may still rewrite a card: only its creator, only a text card
+   * (checked once decrypted), and only while the partner has never drawn it
+   */
+  canEdit(card: Card, userId: string): boolean {
+    return card.creatorId === userId &&
+      !card.deletedAt &&
+      !card.contentKeyDestroyed &&
+      !card.isRead &&
+      !card.lastDrawnAt;
+  }
+
+  /**
+   * Rewrite a text card the user created and their partner hasn't drawn yet
+   * The new text is sealed under a fresh content key, so nothing links it to the
+   * old ciphertext; the card keeps its template and place in the deck.
+   */
+  async editTextCard(
+    card: Card,
+    editorId: string,
+    content: string,
+    sharedSecret: SharedSecret
+  ): Promise<void> {
+    if (!this.canEdit(card, editorId)) {
+      throw new Error('Only notes you wrote that haven\'t been drawn yet can be edited');
+    }
+    if (content.length > MAX_TEXT_LENGTH) {
+      throw new Error(`Text must be ${MAX_TEXT_LENGTH} characters or less`);
+    }
+
+    const { metadata } = await this.decryptCard(card, sharedSecret);
+    if (metadata.contentType !== 'text') {
+      throw new Error('Only text notes can be edited');
+    }
+
+    const { contentKey, wrappedContentKey } = await this.createContentKey(sharedSecret);
+    await updateDoc(doc(db, CARDS_COLLECTION, card.id), {
+      encryptedContent: await encryptionService.encryptText(content, contentKey, 0, {
+        purpose: KeyPurpose.Text,
+        pairId: card.pairId,
+      }),
+      encryptedMetadata: await this.sealMetadata(card.pairId, metadata, contentKey),
+      wrappedContentKey,
+      editedAt: serverTimestamp(),
+      // Older cards kept their metadata in plaintext; it's sealed above
+      ...(card.encryptedMetadata
+        ? {}
+        : { contentType: deleteField(), templateUsed: deleteField(), audioFormat: deleteField() }),
+    });
+  }
+
+  /**
+   * Delete a card the user created, leaving a tombstone
+   * The content and content key are wiped, so the card can never be read again,
+   * but the document stays so draw history and deck cycles that mention it still resolve.
+   */
+  async deleteCard(card: Card, userId: string): Promise<void> {
+    if (card.creatorId !== userId) {
+      throw new Error('Only the note\'s creator can delete it');
+    }
+
+    await updateDoc(doc(db, CARDS_COLLECTION, card.id), {
+      deletedAt: serverTimestamp(),
+      encryptedContent: '',
+      encryptedMetadata: deleteField(),
+      encryptedThumbnail: deleteField(),
+      wrappedContentKey: deleteField(),
+      contentKeyDestroyed: true,
+      contentType: deleteField(),
+      templateUsed: deleteField(),
+      audioFormat: deleteField(),
+    });
+  }
+
+  /**
+   * Take a card that can't be decrypted out of the deck
+   * It stays in the database, so it can still be read if the missing key turns up.
+   */
+  async markUnrecoverable(cardId: string): Promise<void> {
+    await updateDoc(doc(db, CARDS_COLLECTION, cardId), {
+      unrecoverable: true,
+    });
   }
 
   /**
@@ -387,11 +962,7 @@ class CardService {
       return null;
     }
 
-    return {
-      id: cardDoc.id,
-      ...cardDoc.data(),
-      createdAt: cardDoc.data().createdAt?.toDate() || new Date(),
-    } as Card;
+    return this.toCard(cardDoc);
   }
 }
 
@@ -0,0 +1,281 @@
+import nacl from 'tweetnacl';
+import {
+  ENVELOPE_HEADER_LENGTH,
+  NONCE_LENGTH,
+  EnvelopeAlgorithm,
+  EnvelopeFlags,
+  envelopeKey,
+  encodeEnvelope,
+  decodeEnvelope,
+  hasEnvelopeHeader,
+} from './envelope';
+import type { KeyContext } from './subkeys';
+
+/**
+ * Chunked Ciphertext Envelope
+ * Large payloads (voice notes) are sealed as a sequence of independently
+ * authenticated secretbox chunks so they can be encrypted and decrypted
+ * without holding the whole plaintext in memory.
+ *
+ * Uses the regular envelope header with algorithm XSalsa20Poly1305Chunked.
+ * The 24-byte nonce slot holds the stream parameters instead of a nonce:
+ *   [0..15]  random nonce prefix
+ *   [16..19] plaintext chunk size (uint32)
+ *   [20..23] reserved (zero)
+ * followed by the chunks, each `secretbox(chunk)`; all but the last hold
+ * exactly `chunkSize` plaintext bytes.
+ *
+ * Chunk nonce = prefix (16) || chunk index (uint32) || final flag (1) || zero (3).
+ * The index stops chunks being reordered or dropped from the middle; the final
+ * flag stops the stream being cut short at a chunk boundary.
+ */
+
+export const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+const NONCE_PREFIX_LENGTH = 16;
+const CHUNK_OVERHEAD = nacl.secretbox.overheadLength;
+const STREAM_START = ENVELOPE_HEADER_LENGTH + NONCE_LENGTH;
+
+/**
+ * Build the nonce for one chunk
+ */
+function chunkNonce(prefix: Uint8Array, index: number, final: boolean): Uint8Array {
+  const nonce = new Uint8Array(NONCE_LENGTH);
+  nonce.set(prefix, 0);
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, index);
+  nonce[NONCE_PREFIX_LENGTH + 4] = final ? 1 : 0;
+  return nonce;
+}
+
+/**
+ * Check whether a blob (or its first bytes) is a chunked envelope
+ */
+export function isChunkedEnvelope(blob: Uint8Array): boolean {
+  return hasEnvelopeHeader(blob) && blob[3] === EnvelopeAlgorithm.XSalsa20Poly1305Chunked;
+}
+
+/**
+ * Total sealed size for a plaintext of the given length, for preallocating output
+ */
+export function chunkedEnvelopeLength(plaintextLength: number, chunkSize: number = DEFAULT_CHUNK_SIZE): number {
+  const chunkCount = Math.max(1, Math.ceil(plaintextLength / chunkSize));
+  return STREAM_START + plaintextLength + chunkCount * CHUNK_OVERHEAD;
+}
+
+/**
+ * Seals a stream chunk by chunk. Call sealChunk with `final` set on the last one.
+ * With a context, chunks are sealed with the purpose's subkey.
+ */
+export class ChunkEncryptor {
+  readonly header: Uint8Array;
+  readonly chunkSize: number;
+  private noncePrefix: Uint8Array;
+  private index = 0;
+  private finished = false;
+
+  private key: Uint8Array;
+
+  constructor(
+    key: Uint8Array,
+    keyEpoch: number = 0,
+    chunkSize: number = DEFAULT_CHUNK_SIZE,
+    flags: number = 0,
+    context?: KeyContext
+  ) {
+    if (!Number.isInteger(chunkSize) || chunkSize <= 0 || chunkSize > 0xffffffff) {
+      throw new Error('Chunk size must be a positive 32-bit integer');
+    }
+
+    const envelopeFlags = context ? flags | EnvelopeFlags.DerivedKey : flags;
+    this.key = envelopeKey(key, envelopeFlags, context);
+    this.chunkSize = chunkSize;
+    this.noncePrefix = nacl.randomBytes(NONCE_PREFIX_LENGTH);
+
+    const params = new Uint8Array(NONCE_LENGTH);
+    params.set(this.noncePrefix, 0);
+    new DataView(params.buffer).setUint32(NONCE_PREFIX_LENGTH, chunkSize);
+    this.header = encodeEnvelope(
+      { algorithm: EnvelopeAlgorithm.XSalsa20Poly1305Chunked, flags: envelopeFlags, keyEpoch },
+      params,
+      new Uint8Array(0)
+    );
+  }
+
+  /**
+   * Seal the next chunk; every chunk but the last must be exactly chunkSize bytes
+   */
+  sealChunk(chunk: Uint8Array, final: boolean): Uint8Array {
+    if (this.finished) {
+      throw new Error('Stream already finished');
+    }
+    if (chunk.length > this.chunkSize || (!final && chunk.length !== this.chunkSize)) {
+      throw new Error(`Only the final chunk may be shorter than ${this.chunkSize} bytes`);
+    }
+
+    const sealed = nacl.secretbox(chunk, chunkNonce(this.noncePrefix, this.index, final), this.key);
+    this.index++;
+    this.finished = final;
+    return sealed;
+  }
+}
+
+/**
+ * Opens a chunked envelope incrementally. Feed bytes with push() in any
+ * slicing, then call finish() to get the last chunk and detect truncation.
+ */
+export class ChunkDecryptor {
+  private buffer: Uint8Array = new Uint8Array(0);
+  private noncePrefix: Uint8Array | null = null;
+  private chunkSize = 0;
+  private index = 0;
+  private finished = false;
+
+  constructor(
+    private key: Uint8Array,
+    private context?: KeyContext
+  ) {}
+
+  /**
+   * Add ciphertext bytes; returns any chunks that could be decrypted
+   */
+  push(data: Uint8Array): Uint8Array[] {
+    if (this.finished && data.length > 0) {
+      throw new Error('Unexpected data after the final chunk');
+    }
+
+    this.append(data);
+    if (!this.noncePrefix && !this.readHeader()) {
+      return [];
+    }
+
+    // Only decrypt full chunks here: a full chunk may still be the final one,
+    // but a short one is only known to be complete once the input ends
+    const sealedLength = this.chunkSize + CHUNK_OVERHEAD;
+    const chunks: Uint8Array[] = [];
+    while (this.buffer.length >= sealedLength && !this.finished) {
+      chunks.push(this.openChunk(this.buffer.subarray(0, sealedLength)));
+      this.buffer = this.buffer.subarray(sealedLength);
+    }
+
+    if (this.finished && this.buffer.length > 0) {
+      throw new Error('Unexpected data after the final chunk');
+    }
+    return chunks;
+  }
+
+  /**
+   * Signal the end of input; returns the remaining chunk, if any
+   * Throws if the stream was truncated.
+   */
+  finish(): Uint8Array[] {
+    if (!this.noncePrefix) {
+      throw new Error('Ciphertext is too short');
+    }
+    if (this.finished) {
+      return [];
+    }
+    if (this.buffer.length < CHUNK_OVERHEAD) {
+      throw new Error('Encrypted audio is truncated');
+    }
+
+    const chunk = this.openChunk(this.buffer);
+    this.buffer = new Uint8Array(0);
+    if (!this.finished) {
+      throw new Error('Encrypted audio is truncated');
+    }
+    return [chunk];
+  }
+
+  private append(data: Uint8Array): void {
+    if (this.buffer.length === 0) {
+      this.buffer = data;
+      return;
+    }
+    const combined = new Uint8Array(this.buffer.length + data.length);
+    combined.set(this.buffer, 0);
+    combined.set(data, this.buffer.length);
+    this.buffer = combined;
+  }
+
+  private readHeader(): boolean {
+    if (this.buffer.length < STREAM_START) {
+      return false;
+    }
+    if (!isChunkedEnvelope(this.buffer)) {
+      throw new Error('Not a chunked envelope');
+    }
+
+    const { nonce: params, flags } = decodeEnvelope(this.buffer.subarray(0, STREAM_START));
+    this.key = envelopeKey(this.key, flags, this.context);
+    this.noncePrefix = params.slice(0, NONCE_PREFIX_LENGTH);
+    this.chunkSize = new DataView(params.buffer, params.byteOffset, params.byteLength).getUint32(
+      NONCE_PREFIX_LENGTH
+    );
+    if (this.chunkSize === 0) {
+      throw new Error('Invalid chunk size');
+    }
+
+    this.buffer = this.buffer.subarray(STREAM_START);
+    return true;
+  }
+
+  /**
+   * Open one sealed chunk, trying the non-final nonce first
+   */
+  private openChunk(sealed: Uint8Array): Uint8Array {
+    const prefix = this.noncePrefix!;
+    let opened = nacl.secretbox.open(sealed, chunkNonce(prefix, this.index, false), this.key);
+    if (!opened) {
+      opened = nacl.secretbox.open(sealed, chunkNonce(prefix, this.index, true), this.key);
+      if (!opened) {
+        throw new Error('Voice decryption failed - invalid key or corrupted data');
+      }
+      this.finished = true;
+    }
+    this.index++;
+    return opened;
+  }
+}
+
+/**
+ * Seal a whole payload in memory as a chunked envelope
+ */
+export function sealChunkedEnvelope(
+  plaintext: Uint8Array,
+  key: Uint8Array,
+  keyEpoch: number = 0,
+  chunkSize: number = DEFAULT_CHUNK_SIZE,
+  context?: KeyContext
+): Uint8Array {
+  const encryptor = new ChunkEncryptor(key, keyEpoch, chunkSize, 0, context);
+  const output = new Uint8Array(chunkedEnvelopeLength(plaintext.length, chunkSize));
+  output.set(encryptor.header, 0);
+
+  let offset = encryptor.header.length;
+  let position = 0;
+  do {
+    const end = Math.min(position + chunkSize, plaintext.length);
+    const sealed = encryptor.sealChunk(plaintext.subarray(position, end), end === plaintext.length);
+    output.set(sealed, offset);
+    offset += sealed.length;
+    position = end;
+  } while (position < plaintext.length);
+
+  return output;
+}
+
+/**
+ * Open a whole chunked envelope in memory. Throws on tampering or truncation.
+ */
+export function openChunkedEnvelope(blob: Uint8Array, key: Uint8Array, context?: KeyContext): Uint8Array {
+  const decryptor = new ChunkDecryptor(key, context);
+  const chunks = [...decryptor.push(blob), ...decryptor.finish()];
+
+  const plaintext = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    plaintext.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return plaintext;
+}
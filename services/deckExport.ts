@@ -0,0 +1,79 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { db } from './firebase';
+import { cardService } from './cards';
+import { partnerService } from './partner';
+import { keyBackupService } from './keyBackup';
+import { DECK_EXPORT_FORMAT, DECK_EXPORT_VERSION } from './exportedDeck';
+import type { DeckExport, Pair, User } from '../types';
+
+const PAIRS_COLLECTION = 'pairs';
+
+/**
+ * Deck Export Service
+ * Bundles the pair's cards, still encrypted, with the public keys and key backup
+ * needed to open them, so a deck can be read off-device with `npm run decrypt-deck`.
+ * Nothing is decrypted here; the export is only as readable as the backup passphrase allows.
+ */
+class DeckExportService {
+  /**
+   * Build the export for the user's current pair
+   */
+  async createExport(user: User, pairId: string): Promise<DeckExport> {
+    const pairDoc = await getDoc(doc(db, PAIRS_COLLECTION, pairId));
+    if (!pairDoc.exists()) {
+      throw new Error('Pair not found');
+    }
+    const pair = pairDoc.data() as Omit<Pair, 'id'>;
+    const partnerId = pair.user1Id === user.id ? pair.user2Id : pair.user1Id;
+
+    const [partner, cards, keyBackup] = await Promise.all([
+      partnerService.getPartner(user.id, pairId),
+      cardService.getAllCards(pairId),
+      keyBackupService.getBackup(user.id),
+    ]);
+    if (!partner) {
+      throw new Error('Partner not found');
+    }
+
+    return {
+      format: DECK_EXPORT_FORMAT,
+      version: DECK_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      userId: user.id,
+      partnerId,
+      pairId,
+      publicKeys: {
+        [user.id]: user.publicKey,
+        [partnerId]: partner.publicKey,
+      },
+      ...(pair.keyEpochs && { keyEpochs: pair.keyEpochs }),
+      ...(pair.retiredKeys && { retiredKeys: pair.retiredKeys }),
+      cards: cards.map((card) => ({ ...card, createdAt: card.createdAt.toISOString() })),
+      ...(keyBackup && {
+        keyBackup: { ...keyBackup, createdAt: keyBackup.createdAt.toISOString() },
+      }),
+    };
+  }
+
+  /**
+   * Write the export to a temporary JSON file and open the share sheet
+   */
+  async shareExport(user: User, pairId: string): Promise<void> {
+    const deck = await this.createExport(user, pairId);
+
+    const date = deck.exportedAt.slice(0, 10);
+    const file = new File(Paths.cache, `lovenotes-deck-${date}.json`);
+    file.create({ overwrite: true });
+    file.write(JSON.stringify(deck, null, 2));
+
+    await Sharing.shareAsync(file.uri, {
+      mimeType: 'application/json',
+      dialogTitle: 'Export Deck',
+    });
+  }
+}
+
+export const deckExportService = new DeckExportService();
+export default deckExportService;
@@ -0,0 +1,26 @@
+import type { CardKeyMismatch, DecryptionFailureReason } from '../types';
+
+/**
+ * Decryption Error
+ * Thrown when a payload can't be decrypted, with the reason so the UI can
+ * offer a way forward instead of a generic failure.
+ */
+export class DecryptionError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: DecryptionFailureReason,
+    public readonly mismatch?: CardKeyMismatch
+  ) {
+    super(message);
+    this.name = 'DecryptionError';
+    // Keep instanceof working when classes are compiled down to ES5
+    Object.setPrototypeOf(this, DecryptionError.prototype);
+  }
+}
+
+/**
+ * Check whether an error is a DecryptionError
+ */
+export function isDecryptionError(error: unknown): error is DecryptionError {
+  return error instanceof DecryptionError;
+}
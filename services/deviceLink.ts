@@ -0,0 +1,184 @@
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  updateDoc,
+  deleteDoc,
+  onSnapshot,
+  serverTimestamp,
+} from 'firebase/firestore';
+import nacl from 'tweetnacl';
+import { encodeBase64, decodeBase64, decodeUTF8, encodeUTF8 } from 'tweetnacl-util';
+import { db } from './firebase';
+import { encryptionService } from './encryption';
+import { sealEnvelope, openEnvelope } from './envelope';
+import type { DeviceLinkRequest, Keyring, User } from '../types';
+
+const DEVICE_LINKS_COLLECTION = 'deviceLinks';
+const LINK_TTL_MINUTES = 5;
+const QR_PREFIX = 'lovenotes-link';
+
+export interface DeviceLinkSession {
+  requestId: string;
+  qrValue: string;
+  ephemeralSecretKey: Uint8Array; // Held in memory on the new device only
+}
+
+/**
+ * Device Link Service
+ * Moves a private key from a logged-in device to a new one through a
+ * short-lived Firestore handoff document. The key is sealed to an ephemeral
+ * public key that only travels in the new device's QR code.
+ */
+class DeviceLinkService {
+  /**
+   * Encode the QR payload shown by the new device
+   */
+  private encodeQrValue(requestId: string, ephemeralPublicKey: string): string {
+    return `${QR_PREFIX}:${requestId}:${ephemeralPublicKey}`;
+  }
+
+  /**
+   * Parse a scanned QR payload
+   */
+  private parseQrValue(qrValue: string): { requestId: string; ephemeralPublicKey: string } {
+    const [prefix, requestId, ephemeralPublicKey] = qrValue.split(':');
+    if (prefix !== QR_PREFIX || !requestId || !ephemeralPublicKey) {
+      throw new Error('This is not a LoveNotes device link code');
+    }
+    return { requestId, ephemeralPublicKey };
+  }
+
+  /**
+   * New device: create a link request and the QR code to display
+   */
+  async createLinkRequest(userId: string): Promise<DeviceLinkSession> {
+    const ephemeral = nacl.box.keyPair();
+    const ephemeralPublicKey = encodeBase64(ephemeral.publicKey);
+    const requestRef = doc(collection(db, DEVICE_LINKS_COLLECTION));
+
+    await setDoc(requestRef, {
+      userId,
+      ephemeralPublicKey,
+      createdAt: serverTimestamp(),
+      expiresAt: new Date(Date.now() + LINK_TTL_MINUTES * 60 * 1000),
+    });
+
+    return {
+      requestId: requestRef.id,
+      qrValue: this.encodeQrValue(requestRef.id, ephemeralPublicKey),
+      ephemeralSecretKey: ephemeral.secretKey,
+    };
+  }
+
+  /**
+   * New device: wait for the approving device to deliver the private key
+   * Stores the key once it arrives and verifies it matches the account's public key.
+   * Returns an unsubscribe function.
+   */
+  waitForPrivateKey(
+    session: DeviceLinkSession,
+    expectedPublicKey: string,
+    onLinked: () => void,
+    onError: (error: Error) => void
+  ): () => void {
+    const requestRef = doc(db, DEVICE_LINKS_COLLECTION, session.requestId);
+    let handled = false;
+
+    const unsubscribe = onSnapshot(requestRef, async (snapshot) => {
+      if (handled || !snapshot.exists()) {
+        return;
+      }
+
+      const data = snapshot.data() as DeviceLinkRequest;
+      if (!data.encryptedPrivateKey || !data.senderPublicKey) {
+        return;
+      }
+      handled = true;
+
+      try {
+        const transportKey = nacl.box.before(
+          decodeBase64(data.senderPublicKey),
+          session.ephemeralSecretKey
+        );
+        const keyringJson = openEnvelope(decodeBase64(data.encryptedPrivateKey), transportKey);
+        if (!keyringJson) {
+          throw new Error('Could not decrypt the key sent by your other device');
+        }
+
+        const keyring = JSON.parse(encodeUTF8(keyringJson)) as Keyring;
+        const identityKey = decodeBase64(keyring.identityKey);
+        const publicKey = encodeBase64(nacl.box.keyPair.fromSecretKey(identityKey).publicKey);
+        if (publicKey !== expectedPublicKey) {
+          throw new Error('The key sent by your other device does not match your account');
+        }
+
+        await encryptionService.importKeyring(keyring);
+        await deleteDoc(requestRef);
+        onLinked();
+      } catch (error: any) {
+        onError(error);
+      } finally {
+        unsubscribe();
+      }
+    }, (error) => onError(error));
+
+    return unsubscribe;
+  }
+
+  /**
+   * Existing device: approve a scanned link request by sending our keyring
+   * sealed to the ephemeral key from the QR code
+   */
+  async approveLinkRequest(qrValue: string, currentUser: User): Promise<void> {
+    const { requestId, ephemeralPublicKey } = this.parseQrValue(qrValue);
+
+    const requestDoc = await getDoc(doc(db, DEVICE_LINKS_COLLECTION, requestId));
+    if (!requestDoc.exists()) {
+      throw new Error('Link request not found. Generate a new code on your other device.');
+    }
+
+    const data = requestDoc.data() as DeviceLinkRequest & { expiresAt: any };
+    if (data.userId !== currentUser.id) {
+      throw new Error('This code belongs to a different account');
+    }
+
+    const expiresAt = data.expiresAt?.toDate();
+    if (expiresAt && expiresAt < new Date()) {
+      throw new Error('Link request has expired. Generate a new code on your other device.');
+    }
+
+    // The QR code is the source of truth for the recipient key, never the document
+    if (data.ephemeralPublicKey !== ephemeralPublicKey) {
+      throw new Error('Link request does not match the scanned code');
+    }
+
+    if (data.encryptedPrivateKey) {
+      throw new Error('This link request has already been used');
+    }
+
+    // Send the whole keyring so rotated pair keys come along with the account key
+    const keyring = await encryptionService.exportKeyring();
+
+    const sender = nacl.box.keyPair();
+    const transportKey = nacl.box.before(decodeBase64(ephemeralPublicKey), sender.secretKey);
+    const encryptedPrivateKey = sealEnvelope(decodeUTF8(JSON.stringify(keyring)), transportKey);
+
+    await updateDoc(doc(db, DEVICE_LINKS_COLLECTION, requestId), {
+      senderPublicKey: encodeBase64(sender.publicKey),
+      encryptedPrivateKey: encodeBase64(encryptedPrivateKey),
+    });
+  }
+
+  /**
+   * Cancel a pending link request
+   */
+  async cancelLinkRequest(requestId: string): Promise<void> {
+    await deleteDoc(doc(db, DEVICE_LINKS_COLLECTION, requestId));
+  }
+}
+
+// Export singleton instance
+export const deviceLinkService = new DeviceLinkService();
+export default deviceLinkService;
@@ -1,17 +1,95 @@
 import nacl from 'tweetnacl';
 import { encodeBase64, decodeBase64 } from 'tweetnacl-util';
-import * as naclUtil from 'tweetnacl-util';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { KeyPair, SharedSecret } from '../types';
+import { decodeEnvelope } from './envelope';
+import {
+  ChunkEncryptor,
+  ChunkDecryptor,
+  isChunkedEnvelope,
+  sealChunkedEnvelope,
+} from './chunkedEnvelope';
+import {
+  sealContentKey,
+  openContentKey,
+  sealText,
+  openText,
+  openVoice,
+  sealImage,
+  openImage,
+} from './payloadCrypto';
+import { deriveSubkey, KeyPurpose, type KeyContext } from './subkeys';
+import { computeKeyId } from './safetyNumber';
+import { secureKeyStore, migrateAsyncStorageKeys } from './secureKeyStore';
+import { RETIRED_KEY_ID_PREFIX, type KeyStore } from './keyStore';
+import type { KeyPair, Keyring } from '../types';
 
 const PRIVATE_KEY_STORAGE_KEY = '@lovenotes:privateKey';
-const SHARED_SECRET_STORAGE_KEY_PREFIX = '@lovenotes:sharedSecret:';
+const EPOCH_KEY_STORAGE_KEY_PREFIX = '@lovenotes:epochKey:';
+const BASE64_SLICE_LENGTH = 64 * 1024; // Multiple of 4, so every slice decodes on its own
+
+/**
+ * Base64-encodes a byte stream piece by piece
+ * Bytes are encoded in runs of whole 3-byte groups, so the pieces join up into
+ * the same string as encoding everything at once.
+ */
+class Base64Writer {
+  private parts: string[] = [];
+  private carry = new Uint8Array(0);
+
+  write(bytes: Uint8Array): void {
+    const data = new Uint8Array(this.carry.length + bytes.length);
+    data.set(this.carry, 0);
+    data.set(bytes, this.carry.length);
+
+    const whole = data.length - (data.length % 3);
+    this.parts.push(encodeBase64(data.subarray(0, whole)));
+    this.carry = data.slice(whole);
+  }
+
+  finish(): string {
+    this.parts.push(encodeBase64(this.carry));
+    this.carry = new Uint8Array(0);
+    return this.parts.join('');
+  }
+}
 
 /**
  * Encryption Service
  * Handles all encryption/decryption operations using TweetNaCl.js
+ * Private keys are read and written only through the KeyStore.
  */
 class EncryptionService {
+  private keyStore: KeyStore = secureKeyStore;
+  private migration: Promise<void> | null = null;
+
+  /**
+   * Replace the key store, e.g. with a MemoryKeyStore in tests
+   */
+  setKeyStore(keyStore: KeyStore): void {
+    this.keyStore = keyStore;
+    this.migration = Promise.resolve(); // Only the secure store inherits AsyncStorage keys
+    this.clearSharedSecret();
+  }
+
+  /**
+   * Get the key store, first moving any plaintext AsyncStorage keys into it
+   */
+  private async getKeyStore(): Promise<KeyStore> {
+    if (!this.migration) {
+      this.migration = migrateAsyncStorageKeys(this.keyStore, [
+        PRIVATE_KEY_STORAGE_KEY,
+        EPOCH_KEY_STORAGE_KEY_PREFIX,
+      ])
+        .then(() => undefined)
+        .catch((error) => {
+          // Retry on the next key access; the plaintext copy is still in place
+          this.migration = null;
+          throw error;
+        });
+    }
+    await this.migration;
+    return this.keyStore;
+  }
+
   /**
    * Generate a new keypair for the user
    */
@@ -24,26 +102,141 @@ class EncryptionService {
   }
 
   /**
-   * Store private key securely in AsyncStorage
+   * Store private key in the key store
    */
   async storePrivateKey(privateKey: string): Promise<void> {
-    await AsyncStorage.setItem(PRIVATE_KEY_STORAGE_KEY, privateKey);
+    const keyStore = await this.getKeyStore();
+    await keyStore.setItem(PRIVATE_KEY_STORAGE_KEY, privateKey);
   }
 
   /**
-   * Retrieve private key from AsyncStorage
+   * Retrieve private key from the key store
    */
   async getPrivateKey(): Promise<string | null> {
-    return await AsyncStorage.getItem(PRIVATE_KEY_STORAGE_KEY);
+    const keyStore = await this.getKeyStore();
+    return await keyStore.getItem(PRIVATE_KEY_STORAGE_KEY);
+  }
+
+  /**
+   * Store the private key for a rotated pair key epoch
+   */
+  async storeEpochPrivateKey(pairId: string, keyEpoch: number, privateKey: string): Promise<void> {
+    const keyStore = await this.getKeyStore();
+    await keyStore.setItem(`${EPOCH_KEY_STORAGE_KEY_PREFIX}${pairId}:${keyEpoch}`, privateKey);
+  }
+
+  /**
+   * Retrieve the private key for a pair key epoch
+   * Epoch 0 is the account keypair generated at registration
+   */
+  async getEpochPrivateKey(pairId: string, keyEpoch: number): Promise<string | null> {
+    if (keyEpoch === 0) {
+      return await this.getPrivateKey();
+    }
+    const keyStore = await this.getKeyStore();
+    return await keyStore.getItem(`${EPOCH_KEY_STORAGE_KEY_PREFIX}${pairId}:${keyEpoch}`);
+  }
+
+  /**
+   * Get the public half of our private key for a pair key epoch
+   */
+  async getEpochPublicKey(pairId: string, keyEpoch: number): Promise<string | null> {
+    const privateKey = await this.getEpochPrivateKey(pairId, keyEpoch);
+    if (!privateKey) {
+      return null;
+    }
+    return encodeBase64(nacl.box.keyPair.fromSecretKey(decodeBase64(privateKey)).publicKey);
+  }
+
+  /**
+   * Keep a replaced account private key, e.g. recovered from an old backup, so
+   * cards written to it stay readable. Returns the key ID of its public key.
+   */
+  async storeRetiredPrivateKey(privateKey: string): Promise<string> {
+    const publicKey = encodeBase64(nacl.box.keyPair.fromSecretKey(decodeBase64(privateKey)).publicKey);
+    const keyId = computeKeyId(publicKey);
+    const keyStore = await this.getKeyStore();
+    await keyStore.setItem(`${EPOCH_KEY_STORAGE_KEY_PREFIX}${RETIRED_KEY_ID_PREFIX}${keyId}`, privateKey);
+    return keyId;
+  }
+
+  /**
+   * Retrieve a replaced account private key by the key ID of its public key
+   */
+  async getRetiredPrivateKey(keyId: string): Promise<string | null> {
+    const keyStore = await this.getKeyStore();
+    return await keyStore.getItem(`${EPOCH_KEY_STORAGE_KEY_PREFIX}${RETIRED_KEY_ID_PREFIX}${keyId}`);
+  }
+
+  /**
+   * Collect every private key held on this device, for backup or device linking
+   */
+  async exportKeyring(): Promise<Keyring> {
+    const identityKey = await this.getPrivateKey();
+    if (!identityKey) {
+      throw new Error('Private key not found on this device');
+    }
+
+    const keyStore = await this.getKeyStore();
+    const epochKeys: Record<string, string> = {};
+    for (const storageKey of await keyStore.getKeys(EPOCH_KEY_STORAGE_KEY_PREFIX)) {
+      const value = await keyStore.getItem(storageKey);
+      if (value) {
+        epochKeys[storageKey.slice(EPOCH_KEY_STORAGE_KEY_PREFIX.length)] = value;
+      }
+    }
+
+    return { identityKey, epochKeys };
+  }
+
+  /**
+   * Store every key from a keyring exported on another device
+   */
+  async importKeyring(keyring: Keyring): Promise<void> {
+    await this.storePrivateKey(keyring.identityKey);
+
+    const keyStore = await this.getKeyStore();
+    for (const [id, key] of Object.entries(keyring.epochKeys)) {
+      await keyStore.setItem(`${EPOCH_KEY_STORAGE_KEY_PREFIX}${id}`, key);
+    }
+  }
+
+  /**
+   * Store a keyring from a replaced account key without touching the current keys
+   * The old identity key becomes a retired key; epoch keys are only added where missing.
+   * Returns the key ID of the old identity key.
+   */
+  async importRetiredKeyring(keyring: Keyring): Promise<string> {
+    const keyId = await this.storeRetiredPrivateKey(keyring.identityKey);
+
+    const keyStore = await this.getKeyStore();
+    for (const [id, key] of Object.entries(keyring.epochKeys)) {
+      const storageKey = `${EPOCH_KEY_STORAGE_KEY_PREFIX}${id}`;
+      if ((await keyStore.getItem(storageKey)) === null) {
+        await keyStore.setItem(storageKey, key);
+      }
+    }
+    return keyId;
   }
 
   /**
    * Derive shared secret from partner's public key using ECDH
    */
-  async deriveSharedSecret(partnerPublicKeyBase64: string): Promise<Uint8Array> {
-    const privateKeyBase64 = await this.getPrivateKey();
+  async deriveSharedSecret(
+    partnerPublicKeyBase64: string,
+    pairId?: string,
+    keyEpoch: number = 0
+  ): Promise<Uint8Array> {
+    const privateKeyBase64 =
+      keyEpoch === 0 || !pairId
+        ? await this.getPrivateKey()
+        : await this.getEpochPrivateKey(pairId, keyEpoch);
     if (!privateKeyBase64) {
-      throw new Error('Private key not found. Please generate a keypair first.');
+      throw new Error(
+        keyEpoch === 0
+          ? 'Private key not found. Please generate a keypair first.'
+          : `Key for epoch ${keyEpoch} not found on this device.`
+      );
     }
 
     const partnerPublicKey = decodeBase64(partnerPublicKeyBase64);
@@ -55,31 +248,66 @@ class EncryptionService {
   }
 
   /**
-   * Cache shared secret for a pair (in memory only, never persisted)
+   * Derive the secret a card was written under after a partner's key changed
+   * Uses a retired private key of ours if a key ID is given, otherwise our key for the epoch.
+   * Not cached: only needed to read cards from before the change.
+   */
+  async deriveRecoverySecret(
+    pairId: string,
+    keyEpoch: number,
+    partnerPublicKeyBase64: string,
+    retiredKeyId?: string
+  ): Promise<Uint8Array> {
+    if (!retiredKeyId) {
+      return await this.deriveSharedSecret(partnerPublicKeyBase64, pairId, keyEpoch);
+    }
+
+    const privateKeyBase64 = await this.getRetiredPrivateKey(retiredKeyId);
+    if (!privateKeyBase64) {
+      throw new Error('Your previous key is not on this device');
+    }
+    return nacl.box.before(decodeBase64(partnerPublicKeyBase64), decodeBase64(privateKeyBase64));
+  }
+
+  /**
+   * Cache shared secret per pair, key epoch and partner key (in memory only, never persisted)
    */
   private sharedSecretCache: Map<string, Uint8Array> = new Map();
 
   /**
-   * Get or derive shared secret for a pair
+   * Get or derive shared secret for a pair at a key epoch
+   * The caller passes the partner's public key for that same epoch
    */
-  async getSharedSecret(pairId: string, partnerPublicKey: string): Promise<Uint8Array> {
+  async getSharedSecret(
+    pairId: string,
+    partnerPublicKey: string,
+    keyEpoch: number = 0
+  ): Promise<Uint8Array> {
+    // Keyed by the partner's key too, so a changed partner key never reuses a stale secret
+    const cacheKey = `${pairId}:${keyEpoch}:${partnerPublicKey}`;
+
     // Check cache first
-    if (this.sharedSecretCache.has(pairId)) {
-      return this.sharedSecretCache.get(pairId)!;
+    if (this.sharedSecretCache.has(cacheKey)) {
+      return this.sharedSecretCache.get(cacheKey)!;
     }
 
     // Derive and cache
-    const sharedSecret = await this.deriveSharedSecret(partnerPublicKey);
-    this.sharedSecretCache.set(pairId, sharedSecret);
+    const sharedSecret = await this.deriveSharedSecret(partnerPublicKey, pairId, keyEpoch);
+    this.sharedSecretCache.set(cacheKey, sharedSecret);
     return sharedSecret;
   }
 
   /**
-   * Clear cached shared secret (e.g., on logout or breakup)
+   * Clear cached shared secrets (e.g., on logout or breakup)
    */
   clearSharedSecret(pairId?: string): void {
     if (pairId) {
-      this.sharedSecretCache.delete(pairId);
+      // Clear every epoch cached for this pair
+      for (const cacheKey of Array.from(this.sharedSecretCache.keys())) {
+        if (cacheKey.startsWith(`${pairId}:`)) {
+          this.sharedSecretCache.delete(cacheKey);
+        }
+      }
     } else {
       // Clear all cached secrets
       this.sharedSecretCache.clear();
@@ -87,74 +315,188 @@ class EncryptionService {
   }
 
   /**
-   * Encrypt text content using shared secret
+   * Generate a random content key for a single card
    */
-  async encryptText(text: string, sharedSecret: Uint8Array): Promise<string> {
-    const nonce = nacl.randomBytes(24);
-    const messageBytes = naclUtil.decodeUTF8(text);
-    const encrypted = nacl.secretbox(messageBytes, nonce, sharedSecret);
-
-    if (!encrypted) {
-      throw new Error('Encryption failed');
-    }
+  async generateContentKey(): Promise<Uint8Array> {
+    return nacl.randomBytes(nacl.secretbox.keyLength);
+  }
 
-    // Combine nonce + encrypted data
-    const combined = new Uint8Array(nonce.length + encrypted.length);
-    combined.set(nonce);
-    combined.set(encrypted, nonce.length);
+  /**
+   * Derive the subkey for a purpose within a pair from a shared secret or content key
+   */
+  deriveSubkey(key: Uint8Array, purpose: KeyPurpose, pairId: string): Uint8Array {
+    return deriveSubkey(key, { purpose, pairId });
+  }
 
-    return encodeBase64(combined);
+  /**
+   * Wrap a card's content key with the pair's shared secret
+   * Output is a base64 envelope tagged with the pair key epoch
+   */
+  async wrapContentKey(
+    contentKey: Uint8Array,
+    sharedSecret: Uint8Array,
+    pairId: string,
+    keyEpoch: number = 0
+  ): Promise<string> {
+    return encodeBase64(sealContentKey(contentKey, sharedSecret, pairId, keyEpoch));
   }
 
   /**
-   * Decrypt text content using shared secret
+   * Unwrap a card's content key with the pair's shared secret
    */
-  async decryptText(encryptedBase64: string, sharedSecret: Uint8Array): Promise<string> {
-    const combined = decodeBase64(encryptedBase64);
-    const nonce = combined.slice(0, 24);
-    const encrypted = combined.slice(24);
+  async unwrapContentKey(
+    wrappedContentKey: string,
+    sharedSecret: Uint8Array,
+    pairId: string
+  ): Promise<Uint8Array> {
+    return openContentKey(decodeBase64(wrappedContentKey), sharedSecret, pairId);
+  }
 
-    const decrypted = nacl.secretbox.open(encrypted, nonce, sharedSecret);
-    if (!decrypted) {
-      throw new Error('Decryption failed - invalid key or corrupted data');
-    }
+  /**
+   * Encrypt text content using shared secret
+   * Output is a base64 envelope tagged with the key epoch it was sealed under.
+   * With a context, the text is sealed with that purpose's subkey.
+   */
+  async encryptText(
+    text: string,
+    sharedSecret: Uint8Array,
+    keyEpoch: number = 0,
+    context?: KeyContext
+  ): Promise<string> {
+    return encodeBase64(sealText(text, sharedSecret, keyEpoch, context));
+  }
 
-    return naclUtil.encodeUTF8(decrypted);
+  /**
+   * Decrypt text content using shared secret
+   * Accepts both envelopes and legacy headerless blobs; padding is stripped
+   */
+  async decryptText(
+    encryptedBase64: string,
+    sharedSecret: Uint8Array,
+    context?: KeyContext
+  ): Promise<string> {
+    return openText(decodeBase64(encryptedBase64), sharedSecret, context);
   }
 
   /**
    * Encrypt voice file (Uint8Array) using shared secret
    * Accepts Uint8Array directly to avoid ArrayBuffer/Blob issues in React Native
+   * Returns a complete chunked envelope, ready to be base64-encoded for storage
    */
   async encryptVoiceFile(
     audioData: Uint8Array,
-    sharedSecret: Uint8Array
-  ): Promise<{ encryptedData: Uint8Array; nonce: Uint8Array }> {
+    sharedSecret: Uint8Array,
+    keyEpoch: number = 0,
+    context?: KeyContext
+  ): Promise<Uint8Array> {
     // Ensure we have a Uint8Array (create copy if needed)
     const audioBytes = audioData instanceof Uint8Array ? audioData : new Uint8Array(audioData);
-    const nonce = nacl.randomBytes(24);
-    const encrypted = nacl.secretbox(audioBytes, nonce, sharedSecret);
+    return sealChunkedEnvelope(audioBytes, sharedSecret, keyEpoch, undefined, context);
+  }
 
-    if (!encrypted) {
-      throw new Error('Voice encryption failed');
-    }
+  /**
+   * Encrypt a voice recording chunk by chunk as it is read from disk
+   * readChunk(length) must return the next `length` bytes of the recording.
+   * Returns the envelope base64-encoded, ready for storage. Each sealed chunk is
+   * encoded as soon as it is sealed, so only one plaintext chunk is held in
+   * memory at a time and the whole envelope is never held as bytes.
+   */
+  async encryptVoiceStream(
+    size: number,
+    readChunk: (length: number) => Uint8Array,
+    sharedSecret: Uint8Array,
+    keyEpoch: number = 0,
+    context?: KeyContext
+  ): Promise<string> {
+    const encryptor = new ChunkEncryptor(sharedSecret, keyEpoch, undefined, 0, context);
+    const output = new Base64Writer();
+    output.write(encryptor.header);
+
+    let remaining = size;
+    do {
+      const chunk = readChunk(Math.min(encryptor.chunkSize, remaining));
+      remaining -= chunk.length;
+      if (remaining < 0 || (chunk.length === 0 && remaining > 0)) {
+        throw new Error('Voice file changed while it was being encrypted');
+      }
 
-    return { encryptedData: encrypted, nonce };
+      output.write(encryptor.sealChunk(chunk, remaining === 0));
+    } while (remaining > 0);
+
+    return output.finish();
   }
 
   /**
    * Decrypt voice file using shared secret
+   * Accepts chunked envelopes, single-shot envelopes and legacy headerless blobs
    */
   async decryptVoiceFile(
     encryptedData: Uint8Array,
-    nonce: Uint8Array,
-    sharedSecret: Uint8Array
+    sharedSecret: Uint8Array,
+    context?: KeyContext
+  ): Promise<Uint8Array> {
+    return openVoice(encryptedData, sharedSecret, context);
+  }
+
+  /**
+   * Encrypt a photo or thumbnail (JPEG bytes)
+   * Returns a chunked envelope, ready to be base64-encoded for storage
+   */
+  async encryptImage(
+    imageData: Uint8Array,
+    key: Uint8Array,
+    keyEpoch: number = 0,
+    context?: KeyContext
+  ): Promise<Uint8Array> {
+    return sealImage(imageData, key, keyEpoch, context);
+  }
+
+  /**
+   * Decrypt a photo or thumbnail
+   */
+  async decryptImage(
+    encryptedData: Uint8Array,
+    key: Uint8Array,
+    context?: KeyContext
   ): Promise<Uint8Array> {
-    const decrypted = nacl.secretbox.open(encryptedData, nonce, sharedSecret);
-    if (!decrypted) {
-      throw new Error('Voice decryption failed - invalid key or corrupted data');
+    return openImage(encryptedData, key, context);
+  }
+
+  /**
+   * Decrypt a base64 voice envelope chunk by chunk
+   * Decodes the base64 incrementally too, so neither the full ciphertext nor the
+   * full audio is materialised. Older single-shot blobs are yielded in one piece.
+   */
+  async *decryptVoiceChunks(
+    encryptedBase64: string,
+    sharedSecret: Uint8Array,
+    context?: KeyContext
+  ): AsyncGenerator<Uint8Array> {
+    const head = decodeBase64(encryptedBase64.slice(0, BASE64_SLICE_LENGTH));
+    if (!isChunkedEnvelope(head)) {
+      yield await this.decryptVoiceFile(decodeBase64(encryptedBase64), sharedSecret, context);
+      return;
+    }
+
+    const decryptor = new ChunkDecryptor(sharedSecret, context);
+    yield* decryptor.push(head);
+    for (
+      let position = BASE64_SLICE_LENGTH;
+      position < encryptedBase64.length;
+      position += BASE64_SLICE_LENGTH
+    ) {
+      const slice = decodeBase64(encryptedBase64.slice(position, position + BASE64_SLICE_LENGTH));
+      yield* decryptor.push(slice);
     }
-    return decrypted;
+    yield* decryptor.finish();
+  }
+
+  /**
+   * Read the key epoch an encrypted payload was sealed under (0 for legacy blobs)
+   */
+  getKeyEpoch(encrypted: string | Uint8Array): number {
+    const blob = typeof encrypted === 'string' ? decodeBase64(encrypted) : encrypted;
+    return decodeEnvelope(blob).keyEpoch;
   }
 
   /**
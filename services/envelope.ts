@@ -0,0 +1,191 @@
+import nacl from 'tweetnacl';
+import { padPlaintext, unpadPlaintext } from './padding';
+import { deriveSubkey, type KeyContext } from './subkeys';
+
+/**
+ * Ciphertext Envelope
+ * Self-describing container for every encrypted payload we store.
+ *
+ * Layout (all multi-byte integers big-endian):
+ *   [0..1]   magic 'LN'
+ *   [2]      format version
+ *   [3]      algorithm id
+ *   [4]      flags (see EnvelopeFlags)
+ *   [5..8]   key epoch id (uint32)
+ *   [9..32]  nonce (24 bytes)
+ *   [33..]   ciphertext
+ *
+ * Blobs written before the envelope existed are a bare `nonce || secretbox`
+ * and are recognised by the missing magic.
+ */
+
+export const ENVELOPE_MAGIC = new Uint8Array([0x4c, 0x4e]); // 'LN'
+export const ENVELOPE_VERSION = 1;
+export const ENVELOPE_HEADER_LENGTH = 9;
+
+export const NONCE_LENGTH = nacl.secretbox.nonceLength;
+
+export enum EnvelopeAlgorithm {
+  XSalsa20Poly1305 = 1, // nacl.secretbox
+  XSalsa20Poly1305Chunked = 2, // nacl.secretbox per chunk, see chunkedEnvelope.ts
+}
+
+export enum EnvelopeFlags {
+  Padded = 0x01, // Plaintext was padded to a length bucket, see padding.ts
+  DerivedKey = 0x02, // Sealed with a purpose-bound subkey of the given key, see subkeys.ts
+}
+
+export interface EnvelopeHeader {
+  version: number;
+  algorithm: EnvelopeAlgorithm;
+  flags: number;
+  keyEpoch: number;
+}
+
+export interface Envelope extends EnvelopeHeader {
+  nonce: Uint8Array;
+  ciphertext: Uint8Array;
+  legacy: boolean; // True for headerless blobs written before the envelope format
+}
+
+/**
+ * Check whether a blob starts with the envelope magic and a known version
+ */
+export function hasEnvelopeHeader(blob: Uint8Array): boolean {
+  return (
+    blob.length >= ENVELOPE_HEADER_LENGTH + NONCE_LENGTH &&
+    blob[0] === ENVELOPE_MAGIC[0] &&
+    blob[1] === ENVELOPE_MAGIC[1] &&
+    blob[2] === ENVELOPE_VERSION
+  );
+}
+
+/**
+ * Serialize an envelope header followed by nonce and ciphertext
+ */
+export function encodeEnvelope(
+  header: Omit<EnvelopeHeader, 'version'>,
+  nonce: Uint8Array,
+  ciphertext: Uint8Array
+): Uint8Array {
+  if (nonce.length !== NONCE_LENGTH) {
+    throw new Error(`Nonce must be ${NONCE_LENGTH} bytes`);
+  }
+  if (!Number.isInteger(header.keyEpoch) || header.keyEpoch < 0 || header.keyEpoch > 0xffffffff) {
+    throw new Error('Key epoch must be an unsigned 32-bit integer');
+  }
+
+  const blob = new Uint8Array(ENVELOPE_HEADER_LENGTH + NONCE_LENGTH + ciphertext.length);
+  blob.set(ENVELOPE_MAGIC, 0);
+  blob[2] = ENVELOPE_VERSION;
+  blob[3] = header.algorithm;
+  blob[4] = header.flags;
+  new DataView(blob.buffer, blob.byteOffset, blob.byteLength).setUint32(5, header.keyEpoch);
+  blob.set(nonce, ENVELOPE_HEADER_LENGTH);
+  blob.set(ciphertext, ENVELOPE_HEADER_LENGTH + NONCE_LENGTH);
+  return blob;
+}
+
+/**
+ * Parse an envelope, falling back to the legacy `nonce || secretbox` layout
+ */
+export function decodeEnvelope(blob: Uint8Array): Envelope {
+  if (hasEnvelopeHeader(blob)) {
+    const view = new DataView(blob.buffer, blob.byteOffset, blob.byteLength);
+    return {
+      version: blob[2],
+      algorithm: blob[3],
+      flags: blob[4],
+      keyEpoch: view.getUint32(5),
+      nonce: blob.subarray(ENVELOPE_HEADER_LENGTH, ENVELOPE_HEADER_LENGTH + NONCE_LENGTH),
+      ciphertext: blob.subarray(ENVELOPE_HEADER_LENGTH + NONCE_LENGTH),
+      legacy: false,
+    };
+  }
+
+  return decodeLegacyEnvelope(blob);
+}
+
+/**
+ * Interpret a blob as the headerless format used before envelopes
+ */
+export function decodeLegacyEnvelope(blob: Uint8Array): Envelope {
+  if (blob.length < NONCE_LENGTH + nacl.secretbox.overheadLength) {
+    throw new Error('Ciphertext is too short');
+  }
+
+  return {
+    version: 0,
+    algorithm: EnvelopeAlgorithm.XSalsa20Poly1305,
+    flags: 0,
+    keyEpoch: 0,
+    nonce: blob.subarray(0, NONCE_LENGTH),
+    ciphertext: blob.subarray(NONCE_LENGTH),
+    legacy: true,
+  };
+}
+
+/**
+ * Pick the key an envelope is sealed with: the subkey for the context if the
+ * envelope is flagged DerivedKey, otherwise the key itself
+ */
+export function envelopeKey(key: Uint8Array, flags: number, context?: KeyContext): Uint8Array {
+  if (!(flags & EnvelopeFlags.DerivedKey)) {
+    return key;
+  }
+  if (!context) {
+    throw new Error('This payload is sealed with a subkey; a key context is required to open it');
+  }
+  return deriveSubkey(key, context);
+}
+
+/**
+ * Seal plaintext with nacl.secretbox and wrap it in an envelope
+ * With EnvelopeFlags.Padded, the plaintext is padded to its length bucket first.
+ * With a context, it is sealed with the purpose's subkey and flagged DerivedKey.
+ */
+export function sealEnvelope(
+  plaintext: Uint8Array,
+  key: Uint8Array,
+  keyEpoch: number = 0,
+  flags: number = 0,
+  context?: KeyContext
+): Uint8Array {
+  const envelopeFlags = context ? flags | EnvelopeFlags.DerivedKey : flags;
+  const nonce = nacl.randomBytes(NONCE_LENGTH);
+  const payload = flags & EnvelopeFlags.Padded ? padPlaintext(plaintext) : plaintext;
+  const ciphertext = nacl.secretbox(payload, nonce, envelopeKey(key, envelopeFlags, context));
+  return encodeEnvelope(
+    { algorithm: EnvelopeAlgorithm.XSalsa20Poly1305, flags: envelopeFlags, keyEpoch },
+    nonce,
+    ciphertext
+  );
+}
+
+/**
+ * Open an envelope (or legacy blob), stripping padding if the envelope is flagged as padded.
+ * Envelopes flagged DerivedKey are opened with the context's subkey; older ones with the key itself.
+ * Returns null if authentication fails or the padding is malformed.
+ */
+export function openEnvelope(blob: Uint8Array, key: Uint8Array, context?: KeyContext): Uint8Array | null {
+  const envelope = decodeEnvelope(blob);
+  const supported = envelope.algorithm === EnvelopeAlgorithm.XSalsa20Poly1305;
+  const opened = supported
+    ? nacl.secretbox.open(envelope.ciphertext, envelope.nonce, envelopeKey(key, envelope.flags, context))
+    : null;
+  if (opened && envelope.flags & EnvelopeFlags.Padded) {
+    return unpadPlaintext(opened);
+  }
+  if (opened || envelope.legacy) {
+    return opened;
+  }
+
+  // A legacy blob whose random nonce happens to start with our magic bytes
+  // parses as an envelope; give it one more chance in the old layout.
+  const legacy = decodeLegacyEnvelope(blob);
+  const legacyOpened = nacl.secretbox.open(legacy.ciphertext, legacy.nonce, key);
+  if (!legacyOpened && !supported) {
+    throw new Error(`Unsupported encryption algorithm: ${envelope.algorithm}`);
+  }
+  return legacyOpened;
+}
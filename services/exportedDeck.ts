@@ -0,0 +1,190 @@
+import nacl from 'tweetnacl';
+import { encodeBase64, decodeBase64 } from 'tweetnacl-util';
+import { openContentKey, openImage, openText, openVoice } from './payloadCrypto';
+import { KeyPurpose } from './subkeys';
+import { computeKeyId } from './safetyNumber';
+import { DecryptionError } from './decryptionError';
+import { decodeSketch } from './sketch';
+import { RETIRED_KEY_ID_PREFIX } from './keyStore';
+import type { CardMetadata, DeckExport, ExportedCard, Keyring, Sketch } from '../types';
+
+/**
+ * Exported Deck
+ * Opens a deck export offline, with nothing but the exporting user's keyring.
+ * Used by the decrypt-deck tool, so exports can be checked and read without
+ * the app or Firebase.
+ */
+
+export const DECK_EXPORT_FORMAT = 'lovenotes-deck';
+export const DECK_EXPORT_VERSION = 1;
+
+export interface DecryptedExportedCard {
+  card: ExportedCard;
+  metadata?: CardMetadata;
+  text?: string; // Text cards
+  audio?: Uint8Array; // Voice cards
+  image?: Uint8Array; // Photo cards, as JPEG
+  sketch?: Sketch; // Sketch cards
+  error?: Error; // Set instead of the content if the card couldn't be decrypted
+}
+
+/**
+ * Check that a parsed file is a deck export this version understands
+ */
+export function assertDeckExport(data: unknown): asserts data is DeckExport {
+  const deck = data as Partial<DeckExport> | null;
+  if (deck?.format !== DECK_EXPORT_FORMAT) {
+    throw new Error('Not a LoveNotes deck export');
+  }
+  if (deck.version !== DECK_EXPORT_VERSION) {
+    throw new Error(`Unsupported deck export version: ${deck.version}`);
+  }
+}
+
+/**
+ * Pick the candidate key whose ID was recorded on the card, or the first one
+ * if the card predates key IDs
+ */
+function pickKey<T>(
+  candidates: { publicKey: string; key: T }[],
+  recordedKeyId: string | undefined
+): T | null {
+  if (!recordedKeyId) {
+    return candidates[0]?.key ?? null;
+  }
+  const match = candidates.find(({ publicKey }) => computeKeyId(publicKey) === recordedKeyId);
+  return match ? match.key : null;
+}
+
+function isPresent(value: string | undefined): value is string {
+  return !!value;
+}
+
+/**
+ * Public key of a base64 private key
+ */
+function publicKeyOf(privateKey: string): string {
+  return encodeBase64(nacl.box.keyPair.fromSecretKey(decodeBase64(privateKey)).publicKey);
+}
+
+/**
+ * Derive the shared secret a card was written under
+ * Falls back to retired keys (ours from the keyring, the partner's from the pair)
+ * when a key changed after the card was written.
+ */
+function getCardSecret(deck: DeckExport, keyring: Keyring, card: ExportedCard): Uint8Array {
+  const epoch = card.keyEpoch ?? 0;
+
+  const ownKeys =
+    epoch === 0
+      ? [
+          keyring.identityKey,
+          ...Object.entries(keyring.epochKeys)
+            .filter(([id]) => id.startsWith(RETIRED_KEY_ID_PREFIX))
+            .map(([, key]) => key),
+        ]
+      : [keyring.epochKeys[`${deck.pairId}:${epoch}`]].filter(isPresent);
+  const partnerKeys =
+    epoch === 0
+      ? [
+          deck.publicKeys[deck.partnerId],
+          ...Object.values(deck.retiredKeys?.[deck.partnerId] ?? {}),
+        ].filter(isPresent)
+      : [deck.keyEpochs?.[epoch]?.[deck.partnerId]].filter(isPresent);
+
+  const ownKey = pickKey(
+    ownKeys.map((key) => ({ publicKey: publicKeyOf(key), key })),
+    card.keyIds?.[deck.userId]
+  );
+  const partnerKey = pickKey(
+    partnerKeys.map((key) => ({ publicKey: key, key })),
+    card.keyIds?.[deck.partnerId]
+  );
+
+  if (!ownKey || !partnerKey) {
+    throw new DecryptionError(
+      !ownKey
+        ? `Your key for epoch ${epoch} is not in the keyring`
+        : `Your partner's key for epoch ${epoch} is not in the export`,
+      'key-changed',
+      { ownKeyChanged: !ownKey, partnerKeyChanged: !partnerKey }
+    );
+  }
+  return nacl.box.before(decodeBase64(partnerKey), decodeBase64(ownKey));
+}
+
+/**
+ * Decrypt one exported card. Failures are returned on the result, not thrown.
+ */
+export function decryptExportedCard(
+  deck: DeckExport,
+  keyring: Keyring,
+  card: ExportedCard
+): DecryptedExportedCard {
+  try {
+    if (card.contentKeyDestroyed) {
+      throw new DecryptionError('This card can no longer be opened', 'destroyed');
+    }
+
+    const secret = getCardSecret(deck, keyring, card);
+    const contentKey = card.wrappedContentKey
+      ? openContentKey(decodeBase64(card.wrappedContentKey), secret, card.pairId)
+      : secret;
+
+    const metadata: CardMetadata = card.encryptedMetadata
+      ? JSON.parse(
+          openText(decodeBase64(card.encryptedMetadata), contentKey, {
+            purpose: KeyPurpose.Metadata,
+            pairId: card.pairId,
+          })
+        )
+      : {
+          contentType: card.contentType ?? 'text',
+          templateId: card.templateUsed,
+          audioFormat: card.audioFormat,
+        };
+
+    if (metadata.contentType === 'text') {
+      const text = openText(decodeBase64(card.encryptedContent), contentKey, {
+        purpose: KeyPurpose.Text,
+        pairId: card.pairId,
+      });
+      return { card, metadata, text };
+    }
+
+    if (metadata.contentType === 'image') {
+      const image = openImage(decodeBase64(card.encryptedContent), contentKey, {
+        purpose: KeyPurpose.Image,
+        pairId: card.pairId,
+      });
+      return { card, metadata, image };
+    }
+
+    if (metadata.contentType === 'sketch') {
+      const sketch = decodeSketch(
+        openText(decodeBase64(card.encryptedContent), contentKey, {
+          purpose: KeyPurpose.Sketch,
+          pairId: card.pairId,
+        })
+      );
+      return { card, metadata, sketch };
+    }
+
+    const audio = openVoice(decodeBase64(card.encryptedContent), contentKey, {
+      purpose: KeyPurpose.Voice,
+      pairId: card.pairId,
+    });
+    return { card, metadata, audio };
+  } catch (error) {
+    return { card, error: error instanceof Error ? error : new Error(String(error)) };
+  }
+}
+
+/**
+ * Decrypt every card in a deck export, oldest first
+ */
+export function decryptDeck(deck: DeckExport, keyring: Keyring): DecryptedExportedCard[] {
+  return [...deck.cards]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map((card) => decryptExportedCard(deck, keyring, card));
+}
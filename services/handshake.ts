@@ -0,0 +1,198 @@
+import { doc, getDoc, updateDoc, runTransaction } from 'firebase/firestore';
+import nacl from 'tweetnacl';
+import { encodeBase64 } from 'tweetnacl-util';
+import { db } from './firebase';
+import { encryptionService } from './encryption';
+import { KeyPurpose } from './subkeys';
+import type { HandshakeConfirmation, HandshakeToken, Pair, User } from '../types';
+
+const PAIRS_COLLECTION = 'pairs';
+const USERS_COLLECTION = 'users';
+const CHALLENGE_LENGTH = 16;
+
+/**
+ * Key Confirmation Handshake
+ * Proves both partners derived the same shared secret before a pair is connected.
+ *
+ * 1. The accepter creates the pair with a token holding a random challenge, encrypted to the shared secret
+ * 2. The inviter decrypts it, then posts its own token echoing the accepter's challenge, with a challenge of its own
+ * 3. The accepter checks the echo, confirms and posts a new token echoing the inviter's challenge
+ * 4. The inviter checks that echo and confirms; once both sides confirmed, the pair is connected
+ *
+ * A substituted public key on either side yields a different secret, so the
+ * tokens won't decrypt and the pair stays `pending`.
+ */
+class HandshakeService {
+  /**
+   * Get the partner's user ID within a pair
+   */
+  private getPartnerId(pair: Pair, userId: string): string {
+    return pair.user1Id === userId ? pair.user2Id : pair.user1Id;
+  }
+
+  /**
+   * Derive the epoch 0 secret from the partner's account key
+   */
+  private async getHandshakeSecret(pair: Pair, userId: string): Promise<Uint8Array> {
+    const partnerDoc = await getDoc(doc(db, USERS_COLLECTION, this.getPartnerId(pair, userId)));
+    if (!partnerDoc.exists()) {
+      throw new Error('Partner not found');
+    }
+    return await encryptionService.getSharedSecret(pair.id, (partnerDoc.data() as User).publicKey, 0);
+  }
+
+  /**
+   * Decrypt and parse a confirmation token
+   */
+  private async openToken(
+    pairId: string,
+    confirmation: HandshakeConfirmation,
+    secret: Uint8Array
+  ): Promise<HandshakeToken> {
+    const json = await encryptionService.decryptText(confirmation.confirmation, secret, {
+      purpose: KeyPurpose.Handshake,
+      pairId,
+    });
+    return JSON.parse(json) as HandshakeToken;
+  }
+
+  /**
+   * Encrypt a fresh token with a new challenge, optionally answering the partner's
+   */
+  private async sealToken(
+    pairId: string,
+    userId: string,
+    secret: Uint8Array,
+    response?: string
+  ): Promise<HandshakeConfirmation> {
+    const token: HandshakeToken = {
+      pairId,
+      userId,
+      challenge: encodeBase64(nacl.randomBytes(CHALLENGE_LENGTH)),
+      ...(response ? { response } : {}),
+    };
+    const confirmation = await encryptionService.encryptText(JSON.stringify(token), secret, 0, {
+      purpose: KeyPurpose.Handshake,
+      pairId,
+    });
+    return { confirmation };
+  }
+
+  /**
+   * Accepter: create the opening confirmation, stored on the pair when it is created
+   */
+  async createConfirmation(
+    pairId: string,
+    userId: string,
+    partnerPublicKey: string
+  ): Promise<HandshakeConfirmation> {
+    const secret = await encryptionService.getSharedSecret(pairId, partnerPublicKey, 0);
+    return await this.sealToken(pairId, userId, secret);
+  }
+
+  /**
+   * Check if a pair has finished key confirmation
+   * Pairs created before the handshake existed have no handshake field and count as confirmed.
+   */
+  isHandshakeComplete(pair: Pair): boolean {
+    if (!pair.handshake) {
+      return true;
+    }
+    return [pair.user1Id, pair.user2Id].every((id) => pair.handshake?.[id]?.confirmed);
+  }
+
+  /**
+   * Take the next handshake step for this user, if there is one
+   * Safe to call on every pair snapshot. Returns true once the pair is connected.
+   */
+  async advanceHandshake(user: User, pairId: string): Promise<boolean> {
+    const pairRef = doc(db, PAIRS_COLLECTION, pairId);
+    const pairDoc = await getDoc(pairRef);
+    if (!pairDoc.exists()) {
+      throw new Error('Pair not found');
+    }
+
+    const pair = { ...(pairDoc.data() as Omit<Pair, 'id'>), id: pairDoc.id } as Pair;
+    if (this.isHandshakeComplete(pair)) {
+      await this.markConnected(pair);
+      return true;
+    }
+
+    const partnerId = this.getPartnerId(pair, user.id);
+    const mine = pair.handshake?.[user.id];
+    const theirs = pair.handshake?.[partnerId];
+
+    // The accepter's token is written with the pair, so there is always something to answer
+    if (!theirs || mine?.confirmed) {
+      return false;
+    }
+
+    const secret = await this.getHandshakeSecret(pair, user.id);
+
+    let partnerToken: HandshakeToken;
+    try {
+      partnerToken = await this.openToken(pairId, theirs, secret);
+    } catch (error) {
+      console.error('Error opening partner confirmation:', error);
+      // Don't keep a secret derived from a key that failed confirmation
+      encryptionService.clearSharedSecret(pairId);
+      throw new Error('Key confirmation failed: your partner\'s encryption key does not match. Do not send notes until you re-pair.');
+    }
+
+    if (partnerToken.pairId !== pairId || partnerToken.userId !== partnerId) {
+      throw new Error('Key confirmation failed: unexpected confirmation from partner');
+    }
+
+    let update: HandshakeConfirmation;
+    if (mine) {
+      // We posed a challenge: confirm only once the partner has answered it
+      if (partnerToken.response === undefined) {
+        return false;
+      }
+      const ownToken = await this.openToken(pairId, mine, secret);
+      if (partnerToken.response !== ownToken.challenge) {
+        throw new Error('Key confirmation failed: your partner did not answer the challenge');
+      }
+      update = theirs.confirmed
+        ? { ...mine, confirmed: true }
+        // Answer the partner's challenge in turn, so they can confirm us
+        : { ...(await this.sealToken(pairId, user.id, secret, partnerToken.challenge)), confirmed: true };
+    } else {
+      // Answer the partner's challenge and pose our own; we confirm once they answer it
+      update = await this.sealToken(pairId, user.id, secret, partnerToken.challenge);
+    }
+
+    const completed = await runTransaction(db, async (transaction) => {
+      const latestDoc = await transaction.get(pairRef);
+      if (!latestDoc.exists()) {
+        throw new Error('Pair not found');
+      }
+
+      const latest = latestDoc.data() as Pair;
+      transaction.update(pairRef, { [`handshake.${user.id}`]: update });
+      return Boolean(latest.handshake?.[partnerId]?.confirmed);
+    });
+
+    if (completed) {
+      await this.markConnected(pair);
+    }
+    return completed;
+  }
+
+  /**
+   * Move both partners from pending to connected
+   */
+  private async markConnected(pair: Pair): Promise<void> {
+    for (const userId of [pair.user1Id, pair.user2Id]) {
+      const userRef = doc(db, USERS_COLLECTION, userId);
+      const userDoc = await getDoc(userRef);
+      if (userDoc.exists() && (userDoc.data() as User).connectionStatus === 'pending') {
+        await updateDoc(userRef, { connectionStatus: 'connected' });
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const handshakeService = new HandshakeService();
+export default handshakeService;
@@ -0,0 +1,134 @@
+import { doc, setDoc, getDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { encryptionService } from './encryption';
+import { wrapKeyring, unwrapKeyring } from './keyWrap';
+import type { KeyBackup } from '../types';
+
+const USERS_COLLECTION = 'users';
+const PRIVATE_SUBCOLLECTION = 'private';
+const KEY_BACKUP_DOC = 'keyBackup';
+
+/**
+ * Key Backup Service
+ * Stores a passphrase-wrapped copy of the private keys so they survive reinstalls.
+ * The passphrase and the unwrapped key never leave the device.
+ */
+class KeyBackupService {
+  /**
+   * Reference the backup document: users/{userId}/private/keyBackup
+   */
+  private backupRef(userId: string) {
+    return doc(db, USERS_COLLECTION, userId, PRIVATE_SUBCOLLECTION, KEY_BACKUP_DOC);
+  }
+
+  /**
+   * Wrap the local keyring with a passphrase and upload the wrapped blob
+   */
+  async createBackup(userId: string, publicKey: string, passphrase: string): Promise<void> {
+    const keyring = await encryptionService.exportKeyring();
+    const backup = await wrapKeyring(keyring, publicKey, passphrase);
+    await setDoc(this.backupRef(userId), {
+      ...backup,
+      createdAt: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Get the wrapped backup, if the user created one
+   */
+  async getBackup(userId: string): Promise<KeyBackup | null> {
+    const backupDoc = await getDoc(this.backupRef(userId));
+    if (!backupDoc.exists()) {
+      return null;
+    }
+
+    const data = backupDoc.data();
+    return {
+      ...data,
+      createdAt: data.createdAt?.toDate() || new Date(),
+    } as KeyBackup;
+  }
+
+  /**
+   * Check if the user has a key backup
+   */
+  async hasBackup(userId: string): Promise<boolean> {
+    const backupDoc = await getDoc(this.backupRef(userId));
+    return backupDoc.exists();
+  }
+
+  /**
+   * Unwrap the backup with the passphrase and store the private key locally
+   */
+  async restoreBackup(userId: string, expectedPublicKey: string, passphrase: string): Promise<void> {
+    const backup = await this.getBackup(userId);
+    if (!backup) {
+      throw new Error('No key backup found for this account');
+    }
+
+    if (backup.publicKey !== expectedPublicKey) {
+      throw new Error('Key backup does not match your current account key');
+    }
+
+    const keyring = await unwrapKeyring(backup, passphrase);
+    await encryptionService.importKeyring(keyring);
+  }
+
+  /**
+   * Check whether the backup holds an account key the user has since replaced
+   */
+  async isBackupForPreviousKey(userId: string, currentPublicKey: string): Promise<boolean> {
+    const backup = await this.getBackup(userId);
+    return backup !== null && backup.publicKey !== currentPublicKey;
+  }
+
+  /**
+   * Unwrap a backup of a replaced account key and keep it as a retired key,
+   * so cards written to the old key can still be read
+   * Returns the old public key, to re-share with the partner.
+   */
+  async recoverPreviousKey(
+    userId: string,
+    currentPublicKey: string,
+    passphrase: string
+  ): Promise<string> {
+    const backup = await this.getBackup(userId);
+    if (!backup) {
+      throw new Error('No key backup found for this account');
+    }
+
+    if (backup.publicKey === currentPublicKey) {
+      throw new Error('This backup holds your current key; there is no previous key to recover');
+    }
+
+    const keyring = await unwrapKeyring(backup, passphrase);
+    await encryptionService.importRetiredKeyring(keyring);
+    return backup.publicKey;
+  }
+
+  /**
+   * Check whether the backup holds every key on this device
+   * Rotating pair keys adds keys that an older backup won't contain
+   */
+  async isBackupCurrent(userId: string): Promise<boolean> {
+    const backup = await this.getBackup(userId);
+    if (!backup) {
+      return false;
+    }
+
+    const keyring = await encryptionService.exportKeyring();
+    const backedUp = new Set(backup.epochKeyIds || []);
+    return Object.keys(keyring.epochKeys).every((id) => backedUp.has(id));
+  }
+
+  /**
+   * Delete the key backup
+   */
+  async deleteBackup(userId: string): Promise<void> {
+    await deleteDoc(this.backupRef(userId));
+  }
+}
+
+// Export singleton instance
+export const keyBackupService = new KeyBackupService();
+export default keyBackupService;
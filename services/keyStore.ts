@@ -0,0 +1,40 @@
+/**
+ * Key Store
+ * Where private keys live on the device. EncryptionService only talks to this
+ * interface, so the backing storage can be swapped (secure storage in the app,
+ * memory in tests and scripts).
+ */
+
+// Replaced account keys live among the epoch keys so backups and device links carry them too
+export const RETIRED_KEY_ID_PREFIX = 'retired:';
+
+export interface KeyStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  /** List stored keys that start with a prefix */
+  getKeys(prefix: string): Promise<string[]>;
+}
+
+/**
+ * In-memory key store for tests and scripts; nothing touches disk
+ */
+export class MemoryKeyStore implements KeyStore {
+  private items: Map<string, string> = new Map();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async getKeys(prefix: string): Promise<string[]> {
+    return Array.from(this.items.keys()).filter((key) => key.startsWith(prefix));
+  }
+}
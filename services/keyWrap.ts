@@ -0,0 +1,102 @@
+import nacl from 'tweetnacl';
+import { encodeBase64, decodeBase64, decodeUTF8, encodeUTF8 } from 'tweetnacl-util';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { sealEnvelope, openEnvelope } from './envelope';
+import type { KeyBackup, Keyring } from '../types';
+
+const KEY_BACKUP_VERSION = 1;
+const SALT_LENGTH = 16;
+
+// scrypt cost parameters; stored with every backup so they can be raised later
+// without breaking older backups. 2^15 * 8 * 128 bytes = 32MB of memory per derivation.
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Passphrase Key Wrapping
+ * Pure helpers for sealing a keyring under a passphrase-derived key.
+ */
+
+/**
+ * Derive a secretbox key from a passphrase using scrypt
+ */
+async function deriveWrappingKey(
+  passphrase: string,
+  salt: Uint8Array,
+  params: KeyBackup['kdfParams']
+): Promise<Uint8Array> {
+  return await scryptAsync(passphrase, salt, {
+    ...params,
+    dkLen: nacl.secretbox.keyLength,
+  });
+}
+
+/**
+ * Wrap a keyring with a passphrase. Only the returned blob ever leaves the device.
+ */
+export async function wrapKeyring(
+  keyring: Keyring,
+  publicKeyBase64: string,
+  passphrase: string
+): Promise<KeyBackup> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = nacl.randomBytes(SALT_LENGTH);
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, SCRYPT_PARAMS);
+  const wrappedKey = sealEnvelope(decodeBase64(keyring.identityKey), wrappingKey);
+  const wrappedEpochKeys = sealEnvelope(
+    decodeUTF8(JSON.stringify(keyring.epochKeys)),
+    wrappingKey
+  );
+
+  return {
+    version: KEY_BACKUP_VERSION,
+    kdf: 'scrypt',
+    kdfParams: { ...SCRYPT_PARAMS },
+    salt: encodeBase64(salt),
+    wrappedKey: encodeBase64(wrappedKey),
+    wrappedEpochKeys: encodeBase64(wrappedEpochKeys),
+    epochKeyIds: Object.keys(keyring.epochKeys),
+    publicKey: publicKeyBase64,
+    createdAt: new Date(),
+  };
+}
+
+/**
+ * Unwrap a keyring backup with its passphrase
+ * Verifies the recovered account key actually belongs to the backup's public key
+ */
+export async function unwrapKeyring(backup: KeyBackup, passphrase: string): Promise<Keyring> {
+  if (backup.version !== KEY_BACKUP_VERSION || backup.kdf !== 'scrypt') {
+    throw new Error('Unsupported key backup format');
+  }
+
+  const wrappingKey = await deriveWrappingKey(
+    passphrase,
+    decodeBase64(backup.salt),
+    backup.kdfParams
+  );
+  const privateKey = openEnvelope(decodeBase64(backup.wrappedKey), wrappingKey);
+  if (!privateKey) {
+    throw new Error('Incorrect passphrase');
+  }
+
+  const derivedPublicKey = nacl.box.keyPair.fromSecretKey(privateKey).publicKey;
+  if (encodeBase64(derivedPublicKey) !== backup.publicKey) {
+    throw new Error('Key backup is corrupted');
+  }
+
+  let epochKeys: Record<string, string> = {};
+  if (backup.wrappedEpochKeys) {
+    const epochKeysJson = openEnvelope(decodeBase64(backup.wrappedEpochKeys), wrappingKey);
+    if (!epochKeysJson) {
+      throw new Error('Key backup is corrupted');
+    }
+    epochKeys = JSON.parse(encodeUTF8(epochKeysJson));
+  }
+
+  return { identityKey: encodeBase64(privateKey), epochKeys };
+}
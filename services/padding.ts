@@ -0,0 +1,56 @@
+/**
+ * Length-Hiding Padding
+ * Pads plaintext to a fixed bucket size before sealing, so ciphertext length
+ * reveals only the bucket and not how long the note is.
+ *
+ * Layout: [0..3] real length (uint32, big-endian) || plaintext || zero bytes
+ *
+ * Buckets are powers of two, at least MIN_PADDED_LENGTH bytes. A 200-character
+ * text card (up to 800 bytes of UTF-8) therefore lands in one of 256, 512 or 1024.
+ */
+
+export const MIN_PADDED_LENGTH = 256;
+
+const LENGTH_PREFIX = 4;
+
+/**
+ * Padded size for a plaintext of the given length
+ */
+export function paddedLength(plaintextLength: number): number {
+  const needed = plaintextLength + LENGTH_PREFIX;
+  let bucket = MIN_PADDED_LENGTH;
+  while (bucket < needed) {
+    bucket *= 2;
+  }
+  return bucket;
+}
+
+/**
+ * Pad plaintext up to its bucket
+ */
+export function padPlaintext(plaintext: Uint8Array): Uint8Array {
+  if (plaintext.length > 0xffffffff - LENGTH_PREFIX) {
+    throw new Error('Plaintext is too long to pad');
+  }
+
+  const padded = new Uint8Array(paddedLength(plaintext.length));
+  new DataView(padded.buffer).setUint32(0, plaintext.length);
+  padded.set(plaintext, LENGTH_PREFIX);
+  return padded;
+}
+
+/**
+ * Strip padding added by padPlaintext. Returns null if the padding is malformed.
+ */
+export function unpadPlaintext(padded: Uint8Array): Uint8Array | null {
+  if (padded.length < LENGTH_PREFIX) {
+    return null;
+  }
+
+  const length = new DataView(padded.buffer, padded.byteOffset, padded.byteLength).getUint32(0);
+  const end = LENGTH_PREFIX + length;
+  if (end > padded.length || padded.subarray(end).some((byte) => byte !== 0)) {
+    return null;
+  }
+  return padded.subarray(LENGTH_PREFIX, end);
+}
@@ -0,0 +1,290 @@
+import { doc, getDoc, updateDoc, runTransaction, deleteField } from 'firebase/firestore';
+import { db } from './firebase';
+import { encryptionService } from './encryption';
+import { partnerService } from './partner';
+import { cardService } from './cards';
+import { computeKeyId } from './safetyNumber';
+import { DecryptionError } from './decryptionError';
+import type { Card, CardKeyMismatch, Pair, SharedSecret } from '../types';
+
+const PAIRS_COLLECTION = 'pairs';
+
+/**
+ * Pair Key Service
+ * Resolves the shared secret for a pair at a given key epoch and rotates pair keys.
+ *
+ * Epoch 0 is ECDH between both partners' account keys. Each rotation adds an
+ * epoch where both partners contribute a freshly generated keypair; the new
+ * epoch becomes current once both public keys are on the pair document.
+ */
+class PairKeyService {
+  /**
+   * Load the pair document
+   */
+  private async getPair(pairId: string): Promise<Pair> {
+    const pairDoc = await getDoc(doc(db, PAIRS_COLLECTION, pairId));
+    if (!pairDoc.exists()) {
+      throw new Error('Pair not found');
+    }
+    return { ...(pairDoc.data() as Omit<Pair, 'id'>), id: pairDoc.id } as Pair;
+  }
+
+  /**
+   * Get the partner's user ID within a pair
+   */
+  private getPartnerId(pair: Pair, userId: string): string {
+    return pair.user1Id === userId ? pair.user2Id : pair.user1Id;
+  }
+
+  /**
+   * Get the pair's current key epoch
+   */
+  async getCurrentEpoch(pairId: string): Promise<number> {
+    const pair = await this.getPair(pairId);
+    return pair.keyEpoch ?? 0;
+  }
+
+  /**
+   * Get the partner's public key for a key epoch
+   */
+  async getPartnerPublicKey(userId: string, pairId: string, keyEpoch: number): Promise<string> {
+    if (keyEpoch === 0) {
+      return await partnerService.getPartnerPublicKey(userId, pairId);
+    }
+
+    const pair = await this.getPair(pairId);
+    const partnerKey = pair.keyEpochs?.[keyEpoch]?.[this.getPartnerId(pair, userId)];
+    if (!partnerKey) {
+      throw new Error(`Partner key for epoch ${keyEpoch} not found`);
+    }
+    return partnerKey;
+  }
+
+  /**
+   * Get the shared secret for a pair, at the current epoch unless one is given
+   * Also returns the IDs of both public keys it was derived from, for recording on cards.
+   */
+  async getPairSecret(userId: string, pairId: string, keyEpoch?: number): Promise<SharedSecret> {
+    const pair = await this.getPair(pairId);
+    const epoch = keyEpoch ?? pair.keyEpoch ?? 0;
+    const partnerPublicKey = await this.getPartnerPublicKey(userId, pairId, epoch);
+    const secret = await encryptionService.getSharedSecret(pairId, partnerPublicKey, epoch);
+
+    const keyIds: Record<string, string> = {
+      [this.getPartnerId(pair, userId)]: computeKeyId(partnerPublicKey),
+    };
+    const ownPublicKey = await encryptionService.getEpochPublicKey(pairId, epoch);
+    if (ownPublicKey) {
+      keyIds[userId] = computeKeyId(ownPublicKey);
+    }
+
+    return { secret, pairId, keyEpoch: epoch, keyIds };
+  }
+
+  /**
+   * Get the shared secret a card was encrypted under
+   * If either partner's key changed since the card was written, falls back to
+   * our retired key or the partner's re-shared old public key, and throws a
+   * `key-changed` DecryptionError if neither is available.
+   */
+  async getCardSecret(userId: string, card: Card): Promise<SharedSecret> {
+    const current = await this.getPairSecret(userId, card.pairId, card.keyEpoch ?? 0);
+    if (!card.keyIds) {
+      return current; // Written before key IDs were recorded; nothing to compare against
+    }
+
+    const pair = await this.getPair(card.pairId);
+    const partnerId = this.getPartnerId(pair, userId);
+    const ownKeyId = card.keyIds[userId];
+    const partnerKeyId = card.keyIds[partnerId];
+    const ownKeyChanged = Boolean(ownKeyId) && ownKeyId !== current.keyIds?.[userId];
+    const partnerKeyChanged = Boolean(partnerKeyId) && partnerKeyId !== current.keyIds?.[partnerId];
+    if (!ownKeyChanged && !partnerKeyChanged) {
+      return current;
+    }
+
+    // Partner's old public key, if they recovered it and shared it on the pair
+    const partnerPublicKey = partnerKeyChanged
+      ? pair.retiredKeys?.[partnerId]?.[partnerKeyId]
+      : await this.getPartnerPublicKey(userId, card.pairId, card.keyEpoch ?? 0);
+    const hasOwnKey =
+      !ownKeyChanged || (await encryptionService.getRetiredPrivateKey(ownKeyId)) !== null;
+
+    if (!partnerPublicKey || !hasOwnKey) {
+      const mismatch: CardKeyMismatch = {
+        partnerKeyChanged: partnerKeyChanged && !partnerPublicKey,
+        ownKeyChanged: !hasOwnKey,
+      };
+      throw new DecryptionError(
+        mismatch.ownKeyChanged
+          ? 'This note was written to your previous key'
+          : 'This note was written with your partner\'s previous key',
+        'key-changed',
+        mismatch
+      );
+    }
+
+    const secret = await encryptionService.deriveRecoverySecret(
+      card.pairId,
+      card.keyEpoch ?? 0,
+      partnerPublicKey,
+      ownKeyChanged ? ownKeyId : undefined
+    );
+    return { secret, pairId: card.pairId, keyEpoch: card.keyEpoch ?? 0, keyIds: card.keyIds };
+  }
+
+  /**
+   * Share an old public key of ours on the pair, so the partner can read cards written with it
+   */
+  async publishRetiredKey(userId: string, pairId: string, publicKey: string): Promise<void> {
+    await updateDoc(doc(db, PAIRS_COLLECTION, pairId), {
+      [`retiredKeys.${userId}.${computeKeyId(publicKey)}`]: publicKey,
+    });
+  }
+
+  /**
+   * Start a key rotation, or contribute our new key to one the partner started
+   * Returns true if the rotation completed (both partners' keys are in place)
+   */
+  async rotatePairKey(userId: string, pairId: string, reencrypt: boolean = false): Promise<boolean> {
+    const completed = await this.contributeEpochKey(userId, pairId, reencrypt);
+    if (completed && reencrypt) {
+      this.reencryptInBackground(userId, pairId);
+    }
+    return completed;
+  }
+
+  /**
+   * Finish a rotation the partner started, if it is still waiting for our key
+   * Called on app load so rotations complete without the partner being online together.
+   * Each partner only moves the cards they wrote to a new epoch, so this also catches up
+   * on a re-encryption the other partner's device completed while we were away.
+   */
+  async completePendingRotation(userId: string, pairId: string): Promise<void> {
+    const pair = await this.getPair(pairId);
+    if (pair.pendingKeyEpoch !== undefined && !pair.keyEpochs?.[pair.pendingKeyEpoch]?.[userId]) {
+      const completed = await this.contributeEpochKey(userId, pairId, false);
+      if (completed && pair.reencryptOnRotate) {
+        this.reencryptInBackground(userId, pairId);
+      }
+      return;
+    }
+
+    if (pair.reencryptEpoch !== undefined && (pair.reencryptedBy?.[userId] ?? 0) < pair.reencryptEpoch) {
+      this.reencryptInBackground(userId, pairId);
+    }
+  }
+
+  /**
+   * Generate a keypair for the next epoch and publish its public key on the pair
+   */
+  private async contributeEpochKey(
+    userId: string,
+    pairId: string,
+    reencrypt: boolean
+  ): Promise<boolean> {
+    const pair = await this.getPair(pairId);
+    const epoch = pair.pendingKeyEpoch ?? (pair.keyEpoch ?? 0) + 1;
+    if (pair.keyEpochs?.[epoch]?.[userId]) {
+      throw new Error('Your new key is already in place. Waiting for your partner to open the app.');
+    }
+
+    // Persist the private key before its public half goes live, so a crash can't strand the epoch
+    const keyPair = await encryptionService.generateKeyPair();
+    await encryptionService.storeEpochPrivateKey(pairId, epoch, keyPair.privateKey);
+
+    const pairRef = doc(db, PAIRS_COLLECTION, pairId);
+    return await runTransaction(db, async (transaction) => {
+      const latestDoc = await transaction.get(pairRef);
+      if (!latestDoc.exists()) {
+        throw new Error('Pair not found');
+      }
+
+      const latest = latestDoc.data() as Pair;
+      const expectedEpoch = latest.pendingKeyEpoch ?? (latest.keyEpoch ?? 0) + 1;
+      if (expectedEpoch !== epoch) {
+        throw new Error('Keys were rotated at the same time on another device. Please try again.');
+      }
+
+      const partnerKey = latest.keyEpochs?.[epoch]?.[this.getPartnerId(latest, userId)];
+      const update: Record<string, unknown> = {
+        [`keyEpochs.${epoch}.${userId}`]: keyPair.publicKey,
+      };
+
+      if (partnerKey) {
+        // Both keys are in place: the new epoch becomes current
+        update.keyEpoch = epoch;
+        update.pendingKeyEpoch = deleteField();
+        update.reencryptOnRotate = deleteField();
+        if (reencrypt || latest.reencryptOnRotate) {
+          update.reencryptEpoch = epoch;
+        }
+      } else {
+        update.pendingKeyEpoch = epoch;
+        if (reencrypt) {
+          update.reencryptOnRotate = true;
+        }
+      }
+
+      transaction.update(pairRef, update);
+      return Boolean(partnerKey);
+    });
+  }
+
+  /**
+   * Move every card we wrote under an older epoch to the current epoch
+   * The partner's cards are theirs to move. Once all of ours are moved, this is
+   * recorded on the pair so other devices don't repeat it.
+   * Returns the number of cards moved
+   */
+  async reencryptDeck(userId: string, pairId: string): Promise<number> {
+    const current = await this.getPairSecret(userId, pairId);
+    const cards = await cardService.getAllCards(pairId);
+    let reencrypted = 0;
+    let failed = 0;
+
+    for (const card of cards) {
+      if (card.creatorId !== userId || (card.keyEpoch ?? 0) >= current.keyEpoch || card.contentKeyDestroyed) {
+        continue;
+      }
+
+      try {
+        const cardSecret = await this.getCardSecret(userId, card);
+        await cardService.rekeyCard(card, cardSecret, current, userId);
+        reencrypted++;
+      } catch (error) {
+        // Leave the card on its old epoch; it stays readable with the old key
+        console.error(`Error re-encrypting card ${card.id}:`, error);
+        failed++;
+      }
+    }
+
+    if (failed === 0) {
+      await updateDoc(doc(db, PAIRS_COLLECTION, pairId), {
+        [`reencryptedBy.${userId}`]: current.keyEpoch,
+      });
+    }
+    return reencrypted;
+  }
+
+  /**
+   * Kick off deck re-encryption without blocking the caller
+   */
+  private reencryptInBackground(userId: string, pairId: string): void {
+    this.reencryptDeck(userId, pairId).catch((error) => {
+      console.error('Error re-encrypting deck:', error);
+    });
+  }
+
+  /**
+   * Check if a rotation is waiting for the partner's key
+   */
+  async isRotationPending(userId: string, pairId: string): Promise<boolean> {
+    const pair = await this.getPair(pairId);
+    return pair.pendingKeyEpoch !== undefined && Boolean(pair.keyEpochs?.[pair.pendingKeyEpoch]?.[userId]);
+  }
+}
+
+// Export singleton instance
+export const pairKeyService = new PairKeyService();
+export default pairKeyService;
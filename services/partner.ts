@@ -12,6 +12,7 @@ import {
 } from 'firebase/firestore';
 import { db } from './firebase';
 import { encryptionService } from './encryption';
+import { handshakeService } from './handshake';
 import type { User, Pair, ConnectionStatus, InviteCode } from '../types';
 
 const INVITE_CODES_COLLECTION = 'inviteCodes';
@@ -100,6 +101,11 @@ class PartnerService {
     }
 
     const inviterData = inviterDoc.data() as User;
+
+    // The invite doc is world-readable; never trust a key that disagrees with the inviter's account
+    if (inviteData.publicKey !== inviterData.publicKey) {
+      throw new Error('This invite code does not match the inviter\'s encryption key');
+    }
     
     // Check if inviter is already paired with someone else (not the current user)
     if (inviterData.partnerId && inviterData.partnerId !== pairId) {
@@ -116,16 +122,19 @@ class PartnerService {
         (existingPairData.user1Id === currentUser.id || existingPairData.user2Id === currentUser.id)
       ) {
         // Pair is valid, just update user documents if needed
+        const connectionStatus: ConnectionStatus = handshakeService.isHandshakeComplete(existingPairData)
+          ? 'connected'
+          : 'pending';
         if (inviterData.partnerId !== pairId) {
           await updateDoc(doc(db, 'users', inviteData.userId), {
             partnerId: pairId,
-            connectionStatus: 'connected',
+            connectionStatus,
           });
         }
         if (currentUser.partnerId !== pairId) {
           await updateDoc(doc(db, 'users', currentUser.id), {
             partnerId: pairId,
-            connectionStatus: 'connected',
+            connectionStatus,
           });
         }
         // Delete used invite code
@@ -139,12 +148,19 @@ class PartnerService {
       }
     }
 
-    // Create new pair
+    // Create new pair, opening the key confirmation handshake with our token
     const pairData: Pair = {
       id: pairId,
       user1Id: userIds[0],
       user2Id: userIds[1],
       createdAt: new Date(),
+      handshake: {
+        [currentUser.id]: await handshakeService.createConfirmation(
+          pairId,
+          currentUser.id,
+          inviteData.publicKey
+        ),
+      },
     };
 
     await setDoc(doc(db, PAIRS_COLLECTION, pairId), {
@@ -152,15 +168,15 @@ class PartnerService {
       createdAt: serverTimestamp(),
     });
 
-    // Update both users' partnerId and connectionStatus
+    // Update both users' partnerId; they stay pending until both confirm the shared key
     await updateDoc(doc(db, 'users', inviteData.userId), {
       partnerId: pairId,
-      connectionStatus: 'connected',
+      connectionStatus: 'pending',
     });
 
     await updateDoc(doc(db, 'users', currentUser.id), {
       partnerId: pairId,
-      connectionStatus: 'connected',
+      connectionStatus: 'pending',
     });
 
     // Delete used invite code
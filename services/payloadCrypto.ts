@@ -0,0 +1,102 @@
+import nacl from 'tweetnacl';
+import { decodeUTF8, encodeUTF8 } from 'tweetnacl-util';
+import { sealEnvelope, openEnvelope, EnvelopeFlags } from './envelope';
+import { isChunkedEnvelope, openChunkedEnvelope, sealChunkedEnvelope } from './chunkedEnvelope';
+import { KeyPurpose, type KeyContext } from './subkeys';
+import { DecryptionError } from './decryptionError';
+
+/**
+ * Payload Crypto
+ * How each kind of stored payload is sealed and opened: content keys, text,
+ * voice and photos. Shared by EncryptionService and the desktop decrypt-deck tool.
+ */
+
+/**
+ * Wrap a card's content key with the pair's shared secret
+ */
+export function sealContentKey(
+  contentKey: Uint8Array,
+  sharedSecret: Uint8Array,
+  pairId: string,
+  keyEpoch: number = 0
+): Uint8Array {
+  const context: KeyContext = { purpose: KeyPurpose.ContentKey, pairId };
+  return sealEnvelope(contentKey, sharedSecret, keyEpoch, 0, context);
+}
+
+/**
+ * Unwrap a card's content key. Throws a `wrong-key` DecryptionError if the secret doesn't open it.
+ */
+export function openContentKey(
+  wrappedContentKey: Uint8Array,
+  sharedSecret: Uint8Array,
+  pairId: string
+): Uint8Array {
+  const context: KeyContext = { purpose: KeyPurpose.ContentKey, pairId };
+  const contentKey = openEnvelope(wrappedContentKey, sharedSecret, context);
+  if (!contentKey || contentKey.length !== nacl.secretbox.keyLength) {
+    throw new DecryptionError('Content key unwrap failed - wrong pair key', 'wrong-key');
+  }
+  return contentKey;
+}
+
+/**
+ * Seal text, padded to a length bucket so the ciphertext doesn't reveal how long it is
+ */
+export function sealText(
+  text: string,
+  key: Uint8Array,
+  keyEpoch: number = 0,
+  context?: KeyContext
+): Uint8Array {
+  return sealEnvelope(decodeUTF8(text), key, keyEpoch, EnvelopeFlags.Padded, context);
+}
+
+/**
+ * Open sealed text. Accepts both envelopes and legacy headerless blobs; padding is stripped.
+ */
+export function openText(blob: Uint8Array, key: Uint8Array, context?: KeyContext): string {
+  const decrypted = openEnvelope(blob, key, context);
+  if (!decrypted) {
+    throw new Error('Decryption failed - invalid key or corrupted data');
+  }
+  return encodeUTF8(decrypted);
+}
+
+/**
+ * Open a voice note in memory
+ * Accepts chunked envelopes, single-shot envelopes and legacy headerless blobs.
+ */
+export function openVoice(blob: Uint8Array, key: Uint8Array, context?: KeyContext): Uint8Array {
+  if (isChunkedEnvelope(blob)) {
+    return openChunkedEnvelope(blob, key, context);
+  }
+
+  const decrypted = openEnvelope(blob, key, context);
+  if (!decrypted) {
+    throw new Error('Voice decryption failed - invalid key or corrupted data');
+  }
+  return decrypted;
+}
+
+/**
+ * Seal a photo or its thumbnail in a chunked envelope, like a voice note
+ */
+export function sealImage(
+  image: Uint8Array,
+  key: Uint8Array,
+  keyEpoch: number = 0,
+  context?: KeyContext
+): Uint8Array {
+  return sealChunkedEnvelope(image, key, keyEpoch, undefined, context);
+}
+
+/**
+ * Open a sealed photo or thumbnail
+ */
+export function openImage(blob: Uint8Array, key: Uint8Array, context?: KeyContext): Uint8Array {
+  if (!isChunkedEnvelope(blob)) {
+    throw new Error('Photo decryption failed - not a chunked envelope');
+  }
+  return openChunkedEnvelope(blob, key, context);
+}
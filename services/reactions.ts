@@ -0,0 +1,111 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  serverTimestamp,
+  type DocumentData,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { encryptionService } from './encryption';
+import { pairKeyService } from './pairKeys';
+import { KeyPurpose } from './subkeys';
+import type { Card, CardReaction } from '../types';
+
+const CARDS_COLLECTION = 'cards';
+const REACTIONS_SUBCOLLECTION = 'reactions';
+
+/**
+ * Reactions a recipient can leave on a card they drew
+ */
+export const CARD_REACTIONS = ['❤️', '😍', '🥹', '😂', '🙏'];
+
+/**
+ * Reaction Service
+ * Reactions are sealed with the pair key at the epoch they were written in,
+ * not with the card's content key, so they can be read by card ID without
+ * loading the card and its payload. Deleting a card removes its reactions
+ * (see the onCardDeleted function).
+ */
+class ReactionService {
+  /**
+   * Reference a card's reactions: cards/{cardId}/reactions/{userId}
+   */
+  private reactionsRef(cardId: string) {
+    return collection(db, CARDS_COLLECTION, cardId, REACTIONS_SUBCOLLECTION);
+  }
+
+  /**
+   * Decrypt one reaction document
+   */
+  private async openReaction(userId: string, pairId: string, data: DocumentData): Promise<string> {
+    const sharedSecret = await pairKeyService.getPairSecret(userId, pairId, data.keyEpoch ?? 0);
+    return await encryptionService.decryptText(data.encryptedReaction, sharedSecret.secret, {
+      purpose: KeyPurpose.Reaction,
+      pairId,
+    });
+  }
+
+  /**
+   * React to a card the user has drawn, replacing any earlier reaction
+   */
+  async setReaction(card: Card, userId: string, reaction: string): Promise<void> {
+    if (!CARD_REACTIONS.includes(reaction)) {
+      throw new Error('Unknown reaction');
+    }
+    if (card.creatorId === userId) {
+      throw new Error('You can\'t react to your own note');
+    }
+    if (!card.isRead && !card.lastDrawnAt) {
+      throw new Error('Draw this note before reacting to it');
+    }
+
+    const sharedSecret = await pairKeyService.getPairSecret(userId, card.pairId);
+    await setDoc(doc(this.reactionsRef(card.id), userId), {
+      userId,
+      encryptedReaction: await encryptionService.encryptText(reaction, sharedSecret.secret, 0, {
+        purpose: KeyPurpose.Reaction,
+        pairId: card.pairId,
+      }),
+      keyEpoch: sharedSecret.keyEpoch,
+      reactedAt: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Take back the user's reaction to a card
+   */
+  async removeReaction(cardId: string, userId: string): Promise<void> {
+    await deleteDoc(doc(this.reactionsRef(cardId), userId));
+  }
+
+  /**
+   * Get and decrypt every reaction left on a card
+   */
+  async getReactions(userId: string, pairId: string, cardId: string): Promise<CardReaction[]> {
+    const snapshot = await getDocs(this.reactionsRef(cardId));
+    return await Promise.all(
+      snapshot.docs.map(async (reactionDoc) => ({
+        userId: reactionDoc.id,
+        reaction: await this.openReaction(userId, pairId, reactionDoc.data()),
+        reactedAt: reactionDoc.data().reactedAt?.toDate() || new Date(),
+      }))
+    );
+  }
+
+  /**
+   * Get and decrypt one user's reaction to a card, or null if they haven't reacted
+   */
+  async getReaction(userId: string, pairId: string, cardId: string, reactorId: string): Promise<string | null> {
+    const reactionDoc = await getDoc(doc(this.reactionsRef(cardId), reactorId));
+    if (!reactionDoc.exists()) {
+      return null;
+    }
+    return await this.openReaction(userId, pairId, reactionDoc.data());
+  }
+}
+
+// Export singleton instance
+export const reactionService = new ReactionService();
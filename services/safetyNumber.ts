@@ -0,0 +1,72 @@
+import { sha512 } from '@noble/hashes/sha2';
+import { decodeBase64, decodeUTF8 } from 'tweetnacl-util';
+
+/**
+ * Safety Numbers
+ * A numeric fingerprint of both partners' public keys. Both phones compute the
+ * same number, so comparing it in person proves no one swapped a key in between.
+ * After a key rotation the number also covers both partners' current epoch keys.
+ */
+
+const SAFETY_NUMBER_CONTEXT = decodeUTF8('LoveNotes safety number v1');
+const GROUP_COUNT = 12;
+const GROUP_BYTES = 5;
+const GROUP_DIGITS = 5;
+const KEY_ID_BYTES = 8;
+
+/**
+ * Compute the safety number for a pair of base64 public keys
+ * Pass both partners' epoch keys too once the pair has rotated keys; each epoch
+ * key follows its owner's account key. Keys are sorted by account key first so
+ * both partners get the same result. Without epoch keys the number is unchanged
+ * from before rotation existed.
+ * Returns 12 groups of 5 digits separated by spaces.
+ */
+export function computeSafetyNumber(
+  publicKeyA: string,
+  publicKeyB: string,
+  epochKeyA?: string,
+  epochKeyB?: string
+): string {
+  const sides = [
+    { account: publicKeyA, epoch: epochKeyA },
+    { account: publicKeyB, epoch: epochKeyB },
+  ].sort((a, b) => (a.account < b.account ? -1 : a.account > b.account ? 1 : 0));
+  const keys = [
+    ...sides.map((side) => side.account),
+    ...(epochKeyA && epochKeyB ? sides.map((side) => side.epoch!) : []),
+  ].map((key) => decodeBase64(key));
+
+  const input = new Uint8Array(
+    keys.reduce((length, key) => length + key.length, SAFETY_NUMBER_CONTEXT.length)
+  );
+  input.set(SAFETY_NUMBER_CONTEXT, 0);
+  let offset = SAFETY_NUMBER_CONTEXT.length;
+  for (const key of keys) {
+    input.set(key, offset);
+    offset += key.length;
+  }
+
+  const digest = sha512(input);
+  const groups: string[] = [];
+
+  for (let i = 0; i < GROUP_COUNT; i++) {
+    // Read 5 bytes as an unsigned 40-bit integer; fits safely in a double
+    let value = 0;
+    for (let j = 0; j < GROUP_BYTES; j++) {
+      value = value * 256 + digest[i * GROUP_BYTES + j];
+    }
+    groups.push(String(value % 10 ** GROUP_DIGITS).padStart(GROUP_DIGITS, '0'));
+  }
+
+  return groups.join(' ');
+}
+
+/**
+ * Short, stable ID for a single base64 public key
+ * Recorded on cards so a later key change can be detected without trial decryption.
+ */
+export function computeKeyId(publicKey: string): string {
+  const digest = sha512(decodeBase64(publicKey));
+  return Array.from(digest.subarray(0, KEY_ID_BYTES), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
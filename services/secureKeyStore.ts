@@ -0,0 +1,100 @@
+import * as SecureStore from 'expo-secure-store';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { KeyStore } from './keyStore';
+
+// SecureStore has no way to enumerate entries, so we keep our own index of stored keys
+const INDEX_KEY = '@lovenotes:keyStoreIndex';
+
+const SECURE_STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  // Keys are backed up with a passphrase instead; never sync them through the OS keychain
+  keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+};
+
+/**
+ * Secure Key Store
+ * Keeps private keys in the OS keychain (iOS) or Keystore-backed storage (Android).
+ */
+class SecureKeyStore implements KeyStore {
+  /**
+   * SecureStore keys may only contain alphanumerics, '.', '-' and '_'
+   */
+  private toSecureKey(key: string): string {
+    return key.replace(/[^A-Za-z0-9._-]/g, '_');
+  }
+
+  private async readIndex(): Promise<string[]> {
+    const index = await SecureStore.getItemAsync(this.toSecureKey(INDEX_KEY), SECURE_STORE_OPTIONS);
+    return index ? JSON.parse(index) : [];
+  }
+
+  private async writeIndex(keys: string[]): Promise<void> {
+    await SecureStore.setItemAsync(
+      this.toSecureKey(INDEX_KEY),
+      JSON.stringify(keys),
+      SECURE_STORE_OPTIONS
+    );
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return await SecureStore.getItemAsync(this.toSecureKey(key), SECURE_STORE_OPTIONS);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await SecureStore.setItemAsync(this.toSecureKey(key), value, SECURE_STORE_OPTIONS);
+
+    const index = await this.readIndex();
+    if (!index.includes(key)) {
+      await this.writeIndex([...index, key]);
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await SecureStore.deleteItemAsync(this.toSecureKey(key), SECURE_STORE_OPTIONS);
+
+    const index = await this.readIndex();
+    if (index.includes(key)) {
+      await this.writeIndex(index.filter((indexed) => indexed !== key));
+    }
+  }
+
+  async getKeys(prefix: string): Promise<string[]> {
+    return (await this.readIndex()).filter((key) => key.startsWith(prefix));
+  }
+}
+
+/**
+ * Move keys stored in plaintext AsyncStorage by older app versions into the key store
+ * Each key is read back from the store before its plaintext copy is deleted.
+ * Returns the number of keys migrated.
+ */
+export async function migrateAsyncStorageKeys(store: KeyStore, prefixes: string[]): Promise<number> {
+  const legacyKeys = (await AsyncStorage.getAllKeys()).filter((key) =>
+    prefixes.some((prefix) => key.startsWith(prefix))
+  );
+  if (legacyKeys.length === 0) {
+    return 0;
+  }
+
+  const migrated: string[] = [];
+  for (const [key, value] of await AsyncStorage.multiGet(legacyKeys)) {
+    if (value === null) {
+      continue;
+    }
+
+    // A key already in the store is newer than the plaintext copy (e.g. restored from backup)
+    if ((await store.getItem(key)) === null) {
+      await store.setItem(key, value);
+      if ((await store.getItem(key)) !== value) {
+        throw new Error('Failed to move encryption key to secure storage');
+      }
+    }
+    migrated.push(key);
+  }
+
+  await AsyncStorage.multiRemove(migrated);
+  return migrated.length;
+}
+
+// Export singleton instance
+export const secureKeyStore = new SecureKeyStore();
+export default secureKeyStore;
@@ -0,0 +1,125 @@
+import type { Sketch, SketchStroke } from '../types';
+
+/**
+ * Sketch Encoding
+ * Hand-drawn sketch cards are stored as vector strokes rather than pixels: each
+ * stroke is a palette color, a pen width and its points on a fixed square canvas,
+ * delta-encoded as small integers. A typical sketch is a few kilobytes, and it is
+ * sealed like card text.
+ */
+
+export const SKETCH_CANVAS_SIZE = 1000; // Points are stored in a 1000 x 1000 coordinate space
+export const SKETCH_FORMAT_VERSION = 1;
+export const SKETCH_COLORS = ['#333333', '#ef4444', '#6366f1', '#10b981', '#f59e0b', '#ec4899'];
+export const SKETCH_WIDTHS = [4, 10, 20];
+export const MAX_SKETCH_POINTS = 20000; // Across all strokes
+
+interface EncodedSketch {
+  v: number;
+  s: number[][]; // Per stroke: [color, width, x0, y0, dx1, dy1, ...]
+}
+
+function clampToCanvas(value: number): number {
+  return Math.min(SKETCH_CANVAS_SIZE, Math.max(0, Math.round(value)));
+}
+
+/**
+ * Count the points in a sketch
+ */
+export function countSketchPoints(sketch: Sketch): number {
+  return sketch.strokes.reduce((total, stroke) => total + stroke.points.length / 2, 0);
+}
+
+/**
+ * Encode a sketch as compact JSON, rounding points to whole canvas units
+ */
+export function encodeSketch(sketch: Sketch): string {
+  if (sketch.strokes.length === 0) {
+    throw new Error('The sketch is empty');
+  }
+  if (countSketchPoints(sketch) > MAX_SKETCH_POINTS) {
+    throw new Error('The sketch is too detailed to save');
+  }
+
+  const encoded: EncodedSketch = {
+    v: SKETCH_FORMAT_VERSION,
+    s: sketch.strokes.map((stroke) => {
+      const values = [stroke.color, Math.round(stroke.width)];
+      let previousX = 0;
+      let previousY = 0;
+      for (let i = 0; i + 1 < stroke.points.length; i += 2) {
+        const x = clampToCanvas(stroke.points[i]);
+        const y = clampToCanvas(stroke.points[i + 1]);
+        values.push(x - previousX, y - previousY);
+        previousX = x;
+        previousY = y;
+      }
+      return values;
+    }),
+  };
+  return JSON.stringify(encoded);
+}
+
+/**
+ * Decode a sketch written by encodeSketch
+ */
+export function decodeSketch(json: string): Sketch {
+  const encoded = JSON.parse(json) as Partial<EncodedSketch> | null;
+  if (encoded?.v !== SKETCH_FORMAT_VERSION || !Array.isArray(encoded.s)) {
+    throw new Error(`Unsupported sketch format: ${encoded?.v}`);
+  }
+
+  return {
+    strokes: encoded.s.map((values) => {
+      const [color, width, ...deltas] = values;
+      const points: number[] = [];
+      let x = 0;
+      let y = 0;
+      for (let i = 0; i + 1 < deltas.length; i += 2) {
+        x += deltas[i];
+        y += deltas[i + 1];
+        points.push(x, y);
+      }
+      return { color, width, points };
+    }),
+  };
+}
+
+/**
+ * SVG path data for a stroke, optionally only its first `pointCount` points
+ * A single point is drawn as a dot.
+ */
+export function strokeToPath(stroke: SketchStroke, pointCount: number = stroke.points.length / 2): string {
+  const count = Math.min(pointCount, stroke.points.length / 2);
+  if (count <= 0) {
+    return '';
+  }
+
+  const [startX, startY] = stroke.points;
+  let path = `M${startX} ${startY}`;
+  if (count === 1) {
+    return `${path}L${startX + 0.1} ${startY}`;
+  }
+  for (let i = 1; i < count; i++) {
+    path += `L${stroke.points[i * 2]} ${stroke.points[i * 2 + 1]}`;
+  }
+  return path;
+}
+
+/**
+ * A standalone SVG document of a sketch, e.g. for the decrypt-deck tool
+ */
+export function sketchToSvg(sketch: Sketch): string {
+  const paths = sketch.strokes.map((stroke) => {
+    const color = SKETCH_COLORS[stroke.color] ?? SKETCH_COLORS[0];
+    return `  <path d="${strokeToPath(stroke)}" stroke="${color}" stroke-width="${stroke.width}" ` +
+      'stroke-linecap="round" stroke-linejoin="round" fill="none"/>';
+  });
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${SKETCH_CANVAS_SIZE} ${SKETCH_CANVAS_SIZE}">`,
+    `  <rect width="${SKETCH_CANVAS_SIZE}" height="${SKETCH_CANVAS_SIZE}" fill="#fff"/>`,
+    ...paths,
+    '</svg>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,40 @@
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha2';
+import { utf8ToBytes } from '@noble/hashes/utils';
+
+/**
+ * Purpose-Bound Subkeys
+ * No key is used for secretbox directly. Each feature seals with its own subkey,
+ * derived with HKDF-SHA256 from the pair's ECDH secret (or a card's content key)
+ * under a label naming the purpose and the pair, so a bug in one feature can't
+ * reuse a key or nonce in another.
+ */
+
+const SUBKEY_SALT = utf8ToBytes('lovenotes:subkey:v1');
+const SUBKEY_LENGTH = 32;
+
+export enum KeyPurpose {
+  ContentKey = 'content-key', // Wrapping card content keys with the pair secret
+  Handshake = 'handshake', // Key confirmation tokens
+  Text = 'text',
+  Voice = 'voice',
+  Image = 'image', // Photo cards: the photo and its thumbnail
+  Sketch = 'sketch', // Sketch cards' encoded strokes
+  Metadata = 'metadata',
+  Reaction = 'reaction', // A recipient's reaction to a card, sealed with the pair secret so it reads without the card
+  Drafts = 'drafts',
+  Exports = 'exports',
+}
+
+export interface KeyContext {
+  purpose: KeyPurpose;
+  pairId: string;
+}
+
+/**
+ * Derive the subkey for a purpose within a pair
+ */
+export function deriveSubkey(key: Uint8Array, context: KeyContext): Uint8Array {
+  const info = utf8ToBytes(`lovenotes:${context.purpose}:${context.pairId}`);
+  return hkdf(sha256, key, SUBKEY_SALT, info, SUBKEY_LENGTH);
+}
@@ -0,0 +1,131 @@
+import { doc, getDoc, updateDoc, serverTimestamp, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { partnerService } from './partner';
+import { computeSafetyNumber } from './safetyNumber';
+import type { Pair, PartnerVerification, User } from '../types';
+
+const PAIRS_COLLECTION = 'pairs';
+
+/**
+ * Partner Verification Service
+ * Tracks whether each partner has compared safety numbers, and flags when the
+ * partner's keys change after they were verified. A new epoch key from a rotation
+ * recorded on the pair is told apart from an unexplained key change.
+ */
+class VerificationService {
+  /**
+   * Get the safety number for two public keys, plus both epoch keys once keys have been rotated
+   */
+  getSafetyNumber(
+    userPublicKey: string,
+    partnerPublicKey: string,
+    userEpochKey?: string,
+    partnerEpochKey?: string
+  ): string {
+    return computeSafetyNumber(userPublicKey, partnerPublicKey, userEpochKey, partnerEpochKey);
+  }
+
+  /**
+   * Get the current user's verification state for their partner
+   * Always reads the partner's key fresh so a substituted key can't hide behind a cache.
+   * A new partner epoch key counts as `rotated` if the verified one belongs to an
+   * earlier epoch on the pair; any other difference counts as `changed`.
+   */
+  async getVerification(user: User, pairId: string): Promise<PartnerVerification> {
+    const { partnerId, partnerPublicKey, partnerEpochKey, safetyNumber, pair } =
+      await this.getCurrentKeys(user, pairId);
+
+    const verification = pair.verifications?.[user.id];
+    if (!verification) {
+      return { status: 'unverified', safetyNumber };
+    }
+
+    // Read from Firestore, so the pinned time is still a Timestamp here
+    const pinnedAt: unknown = verification.verifiedAt;
+    const verifiedAt = pinnedAt instanceof Timestamp ? pinnedAt.toDate() : undefined;
+    if (verification.partnerPublicKey !== partnerPublicKey) {
+      return { status: 'changed', safetyNumber, verifiedAt };
+    }
+    if (verification.partnerEpochKey === partnerEpochKey) {
+      return { status: 'verified', safetyNumber, verifiedAt };
+    }
+
+    const verifiedEpoch = this.findPartnerEpoch(pair, partnerId, verification.partnerEpochKey);
+    if (verifiedEpoch !== null && verifiedEpoch < (pair.keyEpoch ?? 0)) {
+      return { status: 'rotated', safetyNumber, verifiedAt };
+    }
+    return { status: 'changed', safetyNumber, verifiedAt };
+  }
+
+  /**
+   * Find the epoch a partner epoch key was published for, or null if it isn't on the pair
+   * No epoch key means the account keys at epoch 0.
+   */
+  private findPartnerEpoch(pair: Pair, partnerId: string, partnerEpochKey?: string): number | null {
+    if (!partnerEpochKey) {
+      return 0;
+    }
+    const epoch = Object.entries(pair.keyEpochs ?? {}).find(
+      ([, keys]) => keys[partnerId] === partnerEpochKey
+    )?.[0];
+    return epoch !== undefined ? Number(epoch) : null;
+  }
+
+  /**
+   * Record that the user compared safety numbers with their partner
+   * Pins the partner keys the comparison was made against.
+   */
+  async markVerified(user: User, pairId: string, safetyNumber: string): Promise<void> {
+    const current = await this.getCurrentKeys(user, pairId);
+
+    // The partner key may have changed while the screen was open
+    if (current.safetyNumber !== safetyNumber) {
+      throw new Error('Your partner\'s key changed while you were verifying. Please compare the new safety number.');
+    }
+
+    await updateDoc(doc(db, PAIRS_COLLECTION, pairId), {
+      [`verifications.${user.id}`]: {
+        partnerPublicKey: current.partnerPublicKey,
+        ...(current.partnerEpochKey ? { partnerEpochKey: current.partnerEpochKey } : {}),
+        verifiedAt: serverTimestamp(),
+      },
+    });
+  }
+
+  /**
+   * Read both partners' current keys and the safety number they give
+   * Epoch keys are only included once the pair has moved past epoch 0.
+   */
+  private async getCurrentKeys(user: User, pairId: string): Promise<{
+    pair: Pair;
+    partnerId: string;
+    partnerPublicKey: string;
+    partnerEpochKey?: string;
+    safetyNumber: string;
+  }> {
+    const partnerPublicKey = await partnerService.getPartnerPublicKey(user.id, pairId);
+
+    const pairDoc = await getDoc(doc(db, PAIRS_COLLECTION, pairId));
+    if (!pairDoc.exists()) {
+      throw new Error('Pair not found');
+    }
+
+    const pair = pairDoc.data() as Pair;
+    const partnerId = pair.user1Id === user.id ? pair.user2Id : pair.user1Id;
+    const epochKeys = pair.keyEpoch ? pair.keyEpochs?.[pair.keyEpoch] : undefined;
+    const userEpochKey = epochKeys?.[user.id];
+    const partnerEpochKey = epochKeys?.[partnerId];
+
+    return {
+      pair,
+      partnerId,
+      partnerPublicKey,
+      partnerEpochKey,
+      safetyNumber: this.getSafetyNumber(user.publicKey, partnerPublicKey, userEpochKey, partnerEpochKey),
+    };
+  }
+}
+
+// Export singleton instance
+export const verificationService = new VerificationService();
+export default verificationService;
@@ -0,0 +1,204 @@
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { File, Paths, type FileHandle } from 'expo-file-system';
+
+/**
+ * Voice Player
+ * Plays a voice note while it is still being decrypted. expo-av can't play a
+ * file that is still being written, so the audio is split in two: the first
+ * few seconds go to one temp file and start playing straight away, while the
+ * rest is decrypted into a second file that is queued behind it.
+ *
+ * Only ADTS AAC (`.aac`) can be split like this, at any frame boundary. Older
+ * `.m4a` recordings keep their index at the end of the file, so they are played
+ * once fully decrypted.
+ *
+ * The temp files hold decrypted audio; they are deleted once played, and all of
+ * them are deleted on stop().
+ */
+
+const FIRST_SEGMENT_BYTES = 128 * 1024; // About 8 seconds at 128 kbps
+const ADTS_HEADER_LENGTH = 7;
+
+/**
+ * Length of the run of whole ADTS frames at the start of `data` (0 if it isn't ADTS)
+ */
+export function adtsFramesLength(data: Uint8Array): number {
+  let offset = 0;
+  while (offset + ADTS_HEADER_LENGTH <= data.length) {
+    // Sync word 0xFFF, then layer 00
+    if (data[offset] !== 0xff || (data[offset + 1] & 0xf6) !== 0xf0) {
+      break;
+    }
+    const frameLength =
+      ((data[offset + 3] & 0x03) << 11) | (data[offset + 4] << 3) | (data[offset + 5] >> 5);
+    if (frameLength < ADTS_HEADER_LENGTH || offset + frameLength > data.length) {
+      break;
+    }
+    offset += frameLength;
+  }
+  return offset;
+}
+
+export class VoicePlayer {
+  private files: File[] = []; // Every temp file still on disk
+  private queue: File[] = []; // Written segments waiting to play
+  private sound: Audio.Sound | null = null;
+  private starting = false;
+  private writing = true;
+  private stopped = false;
+
+  constructor(private onFinish: () => void) {}
+
+  /**
+   * Decrypt and play a voice note; resolves once every chunk is written
+   * Throws (after cleaning up) if decryption fails.
+   */
+  async play(chunks: AsyncIterable<Uint8Array>, audioFormat: string): Promise<void> {
+    let pending = new Uint8Array(0);
+    let rest: { file: File; handle: FileHandle } | null = null;
+
+    try {
+      for await (const chunk of chunks) {
+        if (this.stopped) {
+          rest?.handle.close();
+          return;
+        }
+
+        if (rest) {
+          rest.handle.writeBytes(chunk);
+          continue;
+        }
+
+        const combined = new Uint8Array(pending.length + chunk.length);
+        combined.set(pending, 0);
+        combined.set(chunk, pending.length);
+        pending = combined;
+
+        // Start playing as soon as the first few seconds of whole frames are in
+        const cut = pending.length >= FIRST_SEGMENT_BYTES ? adtsFramesLength(pending) : 0;
+        if (cut >= FIRST_SEGMENT_BYTES) {
+          this.enqueue(this.writeSegment(pending.subarray(0, cut), audioFormat));
+          const file = this.createFile(audioFormat);
+          rest = { file, handle: file.open() };
+          rest.handle.writeBytes(pending.subarray(cut));
+          pending = new Uint8Array(0);
+        }
+      }
+
+      if (rest) {
+        rest.handle.close();
+        this.enqueue(rest.file);
+        rest = null;
+      } else if (pending.length > 0) {
+        this.enqueue(this.writeSegment(pending, audioFormat));
+      }
+    } catch (error) {
+      rest?.handle.close();
+      await this.stop();
+      throw error;
+    } finally {
+      this.writing = false;
+    }
+
+    // Everything may already have played, e.g. a very short note
+    if (!this.sound && !this.starting && this.queue.length === 0) {
+      this.finish();
+    }
+  }
+
+  /**
+   * Stop playback and delete every temp file
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.queue = [];
+    const sound = this.sound;
+    this.sound = null;
+    if (sound) {
+      try {
+        await sound.unloadAsync();
+      } catch (error) {
+        // Already unloaded
+      }
+    }
+    for (const file of this.files) {
+      this.deleteFile(file);
+    }
+    this.files = [];
+  }
+
+  private createFile(audioFormat: string): File {
+    const file = new File(Paths.cache, `${Date.now()}-${this.files.length}${audioFormat}`);
+    file.create();
+    this.files.push(file);
+    return file;
+  }
+
+  private writeSegment(data: Uint8Array, audioFormat: string): File {
+    const file = this.createFile(audioFormat);
+    const handle = file.open();
+    try {
+      handle.writeBytes(data);
+    } finally {
+      handle.close();
+    }
+    return file;
+  }
+
+  private enqueue(file: File): void {
+    this.queue.push(file);
+    if (!this.sound && !this.starting) {
+      this.playNext();
+    }
+  }
+
+  private async playNext(): Promise<void> {
+    const file = this.queue.shift();
+    if (!file || this.stopped) {
+      // Nothing queued: wait for the next segment, or we're done
+      if (!this.writing && !this.stopped) {
+        this.finish();
+      }
+      return;
+    }
+
+    this.starting = true;
+    try {
+      const { sound } = await Audio.Sound.createAsync({ uri: file.uri }, { shouldPlay: true });
+      if (this.stopped) {
+        await sound.unloadAsync();
+        return;
+      }
+
+      this.sound = sound;
+      // One handler for everything: each segment is deleted as soon as it has played
+      sound.setOnPlaybackStatusUpdate((status: AVPlaybackStatus) => {
+        if (status.isLoaded && status.didJustFinish && this.sound === sound) {
+          this.sound = null;
+          sound.unloadAsync().catch(() => {});
+          this.deleteFile(file);
+          this.files = this.files.filter((f) => f !== file);
+          this.playNext();
+        }
+      });
+    } catch (error) {
+      console.error('Error playing voice note:', error);
+      await this.stop();
+      this.onFinish();
+    } finally {
+      this.starting = false;
+    }
+  }
+
+  private finish(): void {
+    this.stop().finally(this.onFinish);
+  }
+
+  private deleteFile(file: File): void {
+    try {
+      file.delete();
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  }
+}
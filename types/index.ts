@@ -9,7 +9,7 @@ export interface User {
   createdAt: Date;
 }
 
-export type ConnectionStatus = 'unpaired' | 'pending' | 'connected' | 'broken';
+export type ConnectionStatus = 'unpaired' | 'pending' | 'connected' | 'broken'; // 'pending' = paired, key confirmation not finished
 
 // Pair Types
 export interface Pair {
@@ -18,22 +18,126 @@ export interface Pair {
   user2Id: string;
   createdAt: Date;
   sharedSecretKeyEncrypted?: string; // Encrypted shared secret
+  keyEpoch?: number; // Current key epoch; 0 (or absent) uses both partners' account keys
+  pendingKeyEpoch?: number; // Rotation waiting for the other partner's new public key
+  keyEpochs?: Record<string, Record<string, string>>; // Epoch -> userId -> public key
+  reencryptOnRotate?: boolean; // Re-encrypt older cards once the pending rotation completes
+  reencryptEpoch?: number; // Epoch both partners move their own cards to, set when a rotation asking for it completes
+  reencryptedBy?: Record<string, number>; // userId -> latest epoch that user has moved all their own cards to
+  verifications?: Record<string, PairVerification>; // userId -> the partner key that user verified
+  handshake?: Record<string, HandshakeConfirmation>; // userId -> key confirmation; absent on pairs created before the handshake
+  retiredKeys?: Record<string, Record<string, string>>; // userId -> key ID -> a public key that user has since replaced
+  deckCycles?: Record<string, number>; // userId -> how many times that user has gone through their deck
+  drawStrategy?: DrawStrategyName; // How cards are picked from each partner's deck; absent = 'uniform'
+}
+
+// Key Confirmation Types
+export interface HandshakeConfirmation {
+  confirmation: string; // Base64 envelope of a HandshakeToken, encrypted to the epoch 0 shared secret
+  confirmed?: boolean; // Set once this user has decrypted the partner's confirmation
+}
+
+export interface HandshakeToken {
+  pairId: string;
+  userId: string; // Sender of the token
+  challenge: string; // Random, base64; the partner echoes it back as `response`
+  response?: string; // The partner's challenge, when answering a confirmation
+}
+
+// Safety Number Types
+export type VerificationStatus = 'unverified' | 'verified' | 'rotated' | 'changed';
+
+export interface PairVerification {
+  partnerPublicKey: string; // Partner's public key at the time the safety number was compared
+  partnerEpochKey?: string; // Partner's epoch public key at that time; absent if keys hadn't been rotated yet
+  verifiedAt: Date;
+}
+
+export interface PartnerVerification {
+  status: VerificationStatus;
+  safetyNumber: string;
+  verifiedAt?: Date;
 }
 
 // Card Types
-export type CardType = 'text' | 'voice';
+export type CardType = 'text' | 'voice' | 'image' | 'sketch';
 
 export interface Card {
   id: string;
   pairId: string;
   creatorId: string;
+  recipientId?: string; // The partner whose deck the card is in; absent on cards written before per-viewer decks
   encryptedContent: string; // Encrypted text or voice file reference
-  contentType: CardType;
+  encryptedMetadata?: string; // Base64 envelope of the card's CardMetadata, sealed with the content key
+  encryptedThumbnail?: string; // Photo cards: base64 envelope of a small JPEG preview, sealed with the content key
+  contentType?: CardType; // Plaintext only on cards created before sealed metadata
   voiceUrl?: string; // Firebase Storage URL for voice files (deprecated, using encryptedContent)
+  audioFormat?: string; // Plaintext only on cards created before sealed metadata
+  isRead: boolean; // Read by the recipient in their current deck cycle
+  lastDrawnAt?: Date; // Last time the recipient drew the card, in any cycle
+  unlockAt?: Date; // Time capsule: the card can't be drawn before this
+  drawNextOnUnlock?: boolean; // Time capsule: once unlocked, the card is the next one drawn
+  createdAt: Date;
+  editedAt?: Date; // Last time the creator rewrote the card
+  deletedAt?: Date; // Tombstone: the creator deleted the card; its content and content key are gone
+  templateUsed?: string; // Plaintext only on cards created before sealed metadata
+  keyEpoch?: number; // Pair key epoch the content key is wrapped under (absent = 0)
+  wrappedContentKey?: string; // Base64 envelope of the card's content key, sealed with the pair secret; absent on older cards sealed directly with it
+  contentKeyDestroyed?: boolean; // The wrapped content key was deleted; the content can never be decrypted again
+  keyIds?: Record<string, string>; // userId -> ID of the public key each partner had at the card's epoch when it was written
+  unrecoverable?: boolean; // The card could not be decrypted and was taken out of the deck
+}
+
+// A hand-drawn sketch card's strokes, see services/sketch.ts
+export interface SketchStroke {
+  color: number; // Index into SKETCH_COLORS
+  width: number; // Pen width in canvas units
+  points: number[]; // Flattened x, y pairs in canvas units
+}
+
+export interface Sketch {
+  strokes: SketchStroke[];
+}
+
+// A photo picked or taken for a photo card, before downscaling
+export interface PickedImage {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+// Options for a card that stays sealed in the deck until a chosen date
+export interface TimeCapsule {
+  unlockAt: Date;
+  drawNextOnUnlock: boolean;
+}
+
+// Per-card details sealed alongside the content; the backend only sees routing fields
+export interface CardMetadata {
+  contentType: CardType;
+  templateId?: string;
   audioFormat?: string; // Audio file extension (e.g., '.m4a', '.webm') for proper playback
-  isRead: boolean;
+  durationMs?: number; // Voice recording length
+  caption?: string; // Photo cards: optional short caption
+  inReplyTo?: string; // ID of the card this one writes back to
+}
+
+export interface DecryptedCard {
+  id: string;
+  pairId: string;
+  creatorId: string;
   createdAt: Date;
-  templateUsed?: string; // Optional template identifier
+  isRead: boolean;
+  metadata: CardMetadata;
+  text?: string; // Text cards only; voice audio is decrypted during playback
+  sketch?: Sketch; // Sketch cards only
+}
+
+// A recipient's reaction to a card they drew, decrypted
+export interface CardReaction {
+  userId: string;
+  reaction: string; // One of CARD_REACTIONS
+  reactedAt: Date;
 }
 
 export interface CardTemplate {
@@ -51,6 +155,48 @@ export interface DrawHistory {
   viewedBy: string; // User ID who drew the card
 }
 
+// A draw as listed on Home; no card is loaded for it
+export interface RecentDraw {
+  id: string;
+  cardId: string;
+  viewedBy: string; // User ID who drew the card
+  drawnAt: Date;
+  deleted: boolean; // The card's creator has since deleted it
+}
+
+// Mirrors DrawStrategyName in functions/src/drawStrategies.ts
+export type DrawStrategyName = 'uniform' | 'oldest-first' | 'newest-first' | 'least-recently-drawn';
+
+// Per-user draw state: drawHistory/{pairId}/drawState/{userId}
+export interface DrawState {
+  lastDrawnAt: Date;
+  lastCardId: string;
+  drawCount: number;
+  cycle?: number; // Completed deck cycles
+  cycleStartedAt?: Date;
+  cycleDrawCount?: number; // Draws in the current cycle
+}
+
+// A completed pass through a user's deck: drawHistory/{pairId}/cycles/{cycleId}
+export interface DeckCycle {
+  id: string;
+  userId: string;
+  cycle: number; // 1 for the first completed cycle
+  startedAt: Date | null; // Unknown for cycles begun before cycles were tracked
+  endedAt: Date;
+  cardsDrawn: number;
+}
+
+export type DrawResult =
+  | { status: 'drawn'; card: Card }
+  | { status: 'already-drawn'; cardId?: string } // Another tap or device drew first; cardId is what it drew
+  | { status: 'empty' }; // The partner hasn't written any cards yet
+
+// What the drawCard Cloud Function returns; the client loads the drawn card itself
+export type DrawCardResponse =
+  | { status: 'drawn'; cardId: string }
+  | Exclude<DrawResult, { status: 'drawn' }>;
+
 // Invite Code Types
 export interface InviteCode {
   code: string;
@@ -69,6 +215,73 @@ export interface KeyPair {
 export interface SharedSecret {
   secret: Uint8Array; // Derived from ECDH, never stored
   pairId: string;
+  keyEpoch: number;
+  keyIds?: Record<string, string>; // userId -> ID of the public key the secret was derived from
+}
+
+// Why a card could not be decrypted
+export type DecryptionFailureReason =
+  | 'wrong-key' // The pair secret doesn't open the card's content key
+  | 'key-changed' // A partner's public key changed since the card was written
+  | 'corrupted' // The content key opened but the content didn't
+  | 'destroyed'; // The creator destroyed the content key
+
+export interface CardKeyMismatch {
+  partnerKeyChanged: boolean; // Partner's key changed and their old public key hasn't been re-shared
+  ownKeyChanged: boolean; // This user's key changed and the old private key isn't on this device
+}
+
+export interface Keyring {
+  identityKey: string; // Base64 account private key (key epoch 0)
+  epochKeys: Record<string, string>; // `${pairId}:${epoch}` (or `retired:${keyId}` for replaced account keys) -> base64 private key
+}
+
+// Key Backup Types
+export interface KeyBackup {
+  version: number;
+  kdf: 'scrypt';
+  kdfParams: {
+    N: number;
+    r: number;
+    p: number;
+  };
+  salt: string; // Base64 encoded
+  wrappedKey: string; // Base64 envelope of the private key, sealed with the passphrase-derived key
+  wrappedEpochKeys?: string; // Base64 envelope of the rotated pair keys, same wrapping key
+  epochKeyIds?: string[]; // Which `${pairId}:${epoch}` keys the backup holds, to detect stale backups
+  publicKey: string; // Public key the wrapped private key belongs to
+  createdAt: Date;
+}
+
+// Deck Export Types
+// A self-contained copy of a pair's deck, still encrypted, for the decrypt-deck tool
+export interface DeckExport {
+  format: 'lovenotes-deck';
+  version: number;
+  exportedAt: string; // ISO 8601
+  userId: string; // The exporting user; the deck is decrypted with their keys
+  partnerId: string;
+  pairId: string;
+  publicKeys: Record<string, string>; // userId -> account public key at export time
+  keyEpochs?: Record<string, Record<string, string>>; // Copied from the pair
+  retiredKeys?: Record<string, Record<string, string>>; // Copied from the pair
+  cards: ExportedCard[];
+  keyBackup?: ExportedKeyBackup; // The exporting user's passphrase-wrapped keys, if backed up
+}
+
+export type ExportedCard = Omit<Card, 'createdAt'> & { createdAt: string };
+
+export type ExportedKeyBackup = Omit<KeyBackup, 'createdAt'> & { createdAt: string };
+
+// Device Link Types
+export interface DeviceLinkRequest {
+  id: string;
+  userId: string;
+  ephemeralPublicKey: string; // Base64, shown in the new device's QR code
+  createdAt: Date;
+  expiresAt: Date;
+  senderPublicKey?: string; // Ephemeral public key of the approving device
+  encryptedPrivateKey?: string; // Base64 envelope of the sender's keyring, sealed to ephemeralPublicKey
 }
 
 // Auth Types
@@ -84,8 +297,13 @@ export type RootStackParamList = {
   Register: undefined;
   Connect: undefined;
   Home: undefined;
-  CreateCard: undefined;
+  // cardId: edit one of the user's own cards; inReplyTo: write back to a drawn card
+  CreateCard: { cardId?: string; inReplyTo?: string } | undefined;
   ViewCard: { cardId: string };
+  MyCards: undefined;
   Settings: undefined;
+  KeyRecovery: undefined;
+  LinkDevice: undefined;
+  VerifyPartner: { fromPairing?: boolean } | undefined;
 };
 